@@ -1,5 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect, vi } from 'vitest';
 import { Allocator, MemoryBlockRef } from './allocator';
+import {
+  BufferFormatError,
+  ChecksumMismatchError,
+  EndiannessMismatchError,
+  FORMAT_FLAG_UNSEALED,
+  FORMAT_VERSION,
+  FormatMigration,
+  FormatMigrations,
+  InvalidMagicError,
+  UnsupportedVersionError,
+} from './buffer-format';
+import { OutOfMemoryError, fixedStepGrowth, toFitGrowth } from './growth-policy';
+import { legacyFormatMigration } from './legacy-format';
+import { ResizableArray } from './structures/resazible-array/resizable-array';
+import { BestFitStrategy } from './strategies/best-fit';
+import { SegregatedFitStrategy } from './strategies/segregated-fit';
+
+// 40-byte header followed by the initial free and structure tables of 16 entries each
+const INITIAL_HEAP_TOP = 40 + 16 * 8 + 16 * 16;
 
 describe('Allocator', () => {
   it('should allocate memory correctly', () => {
@@ -49,26 +68,41 @@ describe('Allocator', () => {
     expect(block2.offset).toBeGreaterThanOrEqual(block1.offset + block1.size);
   });
 
-  it('should handle maximum free blocks', () => {
-    const allocator = new Allocator(1024, 10);
+  it('should track any number of free blocks', () => {
+    const allocator = new Allocator(1024);
     const blocks: MemoryBlockRef[] = [];
 
-    // Fill the free block list to the maximum
-    for (let i = 0; i < 20; i++) {
+    // Every other block is freed so none of the free ranges can coalesce
+    for (let i = 0; i < 200; i++) {
       const block = allocator.allocate(10);
       if (i % 2 === 0) blocks.push(block);
     }
+    blocks.forEach((block) => allocator.free(block));
+
+    expect(allocator.view.getUint32(4)).toBeGreaterThanOrEqual(100);
+    expect(allocator.view.getUint32(16)).toBeGreaterThanOrEqual(100);
+    const heapTop = allocator.view.getUint32(0);
+    expect(allocator.allocate(10).offset).toBeLessThan(heapTop);
+  });
 
+  it('should keep the free table after expanding and restoring', () => {
+    const allocator = new Allocator(256);
+    const blocks: MemoryBlockRef[] = [];
+    for (let i = 0; i < 60; i++) {
+      const block = allocator.allocate(16);
+      if (i % 2 === 0) blocks.push(block);
+    }
     blocks.forEach((block) => allocator.free(block));
+    const freeCount = allocator.view.getUint32(4);
 
-    // Free another block and ensure it throws an error
-    const extraBlock = allocator.allocate(11);
-    expect(() => allocator.free(extraBlock)).toThrow('Free block list is full');
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    expect(restoredAllocator.view.getUint32(4)).toBe(freeCount);
+    expect(restoredAllocator.allocate(16).offset).toBe(allocator.allocate(16).offset);
   });
 
   it('should initialize with correct metadata', () => {
     const allocator = new Allocator(1024);
-    expect(allocator.view.getUint32(0)).toBe(12 + 100 * 8); // Initial offset
+    expect(allocator.view.getUint32(0)).toBe(INITIAL_HEAP_TOP); // Initial offset
     expect(allocator.view.getUint32(4)).toBe(0); // Initial free block count
     expect(allocator.view.getUint32(8)).toBe(0); // Initial structure count
   });
@@ -137,11 +171,11 @@ describe('Allocator', () => {
 
     // Register a dummy structure
     const structure = {
-      restore: (offset: number) => {
+      restore: () => {
         // Do nothing
       }
     };
-    const id = allocator.registerStructure(structure);
+    const id = allocator.registerStructure(structure, { offset: block2.offset });
 
     // Verify the metadata
     expect(allocator.view.getUint32(0)).toBe(block2.offset + block2.size);
@@ -149,9 +183,10 @@ describe('Allocator', () => {
     expect(allocator.view.getUint32(8)).toBe(1); // Structure count should be 1
 
     // Verify the structure metadata
-    const structOffset = 12 + 100 * 8;
+    const structOffset = allocator.view.getUint32(20);
     expect(allocator.view.getUint32(structOffset)).toBe(id);
-    expect(allocator.view.getUint32(structOffset + 4)).toBe(block2.offset + block2.size);
+    expect(allocator.view.getUint32(structOffset + 4)).toBe(0); // Untyped structure
+    expect(allocator.view.getUint32(structOffset + 8)).toBe(block2.offset);
 
     // Verify data integrity in allocated blocks
     const buffer = allocator.buffer;
@@ -175,4 +210,723 @@ describe('Allocator', () => {
     expect(allocator.view.getUint32(4)).toBe(0); // Free block count should be 0
     expect(allocator.view.getUint32(8)).toBe(1); // Structure count should be 1
   });
+
+  it('should keep the free table sorted and merge both neighbours', () => {
+    const allocator = new Allocator(1024);
+    const blocks = [0, 1, 2, 3, 4].map(() => allocator.allocate(16));
+    allocator.free(blocks[3]);
+    allocator.free(blocks[1]);
+    expect(allocator.freeBlockCount).toBe(2);
+    expect(allocator.freeBlockOffset(0)).toBe(blocks[1].offset);
+
+    allocator.free(blocks[2]);
+    expect(allocator.freeBlockCount).toBe(1);
+    expect(allocator.freeBlockOffset(0)).toBe(blocks[1].offset);
+    expect(allocator.freeBlockSize(0)).toBe(48);
+  });
+
+  describe.each([
+    ['first-fit', () => undefined],
+    ['best-fit', () => new BestFitStrategy()],
+    ['segregated-fit', () => new SegregatedFitStrategy()],
+  ])('with %s strategy', (_, strategy) => {
+    it('should reuse freed memory and survive a restore', () => {
+      const allocator = new Allocator(1024, { strategy: strategy() });
+      const blocks = Array.from({ length: 50 }, (_, i) => allocator.allocate(8 + (i % 5) * 8));
+      blocks.filter((_, i) => i % 2 === 0).forEach((block) => allocator.free(block));
+      const heapTop = allocator.view.getUint32(0);
+
+      expect(allocator.allocate(16).offset).toBeLessThan(heapTop);
+
+      const restored = Allocator.fromBuffer(allocator.buffer, { strategy: strategy() });
+      expect(restored.allocate(24).offset).toBeLessThan(heapTop);
+      expect(restored.view.getUint32(0)).toBe(heapTop);
+    });
+  });
+
+  it('should prefer the tightest block with best-fit', () => {
+    const allocator = new Allocator(1024, { strategy: new BestFitStrategy() });
+    const large = allocator.allocate(64);
+    allocator.allocate(8);
+    const small = allocator.allocate(24);
+    allocator.allocate(8);
+    allocator.free(large);
+    allocator.free(small);
+
+    expect(allocator.allocate(20).offset).toBe(small.offset);
+  });
+
+  it('should keep untyped structure offsets through fromBuffer', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(16);
+    const id = allocator.registerStructure({ restore: () => undefined }, { offset: block.offset });
+
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    expect(restoredAllocator.getStructureOffset(id)).toBe(block.offset);
+    expect(() => restoredAllocator.getStructure(id)).toThrow(`Structure with ID ${id} not found`);
+    expect(restoredAllocator.registerStructure({ restore: () => undefined }, { offset: block.offset })).toBe(id + 1);
+  });
+
+  it('should attach instances to untyped structures loaded by fromBuffer', () => {
+    const allocator = new Allocator(1024);
+    const hole = allocator.allocate(16);
+    const block = allocator.allocate(16);
+    const id = allocator.registerStructure({ restore: () => undefined }, { offset: block.offset });
+    allocator.free(hole);
+
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    const restored: number[] = [];
+    const struct = { restore: (offset: number) => restored.push(offset) };
+    expect(restoredAllocator.attachStructure(id, struct)).toBe(block.offset);
+    expect(() => restoredAllocator.attachStructure(id, struct)).toThrow(`Structure with ID ${id} is already attached`);
+
+    restoredAllocator.compact();
+    expect(restored).toEqual([hole.offset]);
+    expect(restoredAllocator.getStructure(id)).toBe(struct);
+  });
+
+  it('should slide live blocks over the free ones when compacting', () => {
+    const allocator = new Allocator(1024);
+    const first = allocator.allocate(16);
+    const second = allocator.allocate(8);
+    const third = allocator.allocate(8);
+    allocator.view.setUint32(second.offset, 0xdeadbeef);
+    allocator.view.setUint32(third.offset, 42);
+    allocator.free(first);
+
+    const relocate = allocator.compact();
+
+    expect(allocator.freeBlockCount).toBe(0);
+    expect(allocator.view.getUint32(0)).toBe(INITIAL_HEAP_TOP + 16);
+    expect(relocate(second.offset)).toBe(INITIAL_HEAP_TOP);
+    expect(relocate(third.offset)).toBe(INITIAL_HEAP_TOP + 8);
+    expect(allocator.view.getUint32(relocate(second.offset))).toBe(0xdeadbeef);
+    expect(allocator.view.getUint32(relocate(third.offset))).toBe(42);
+  });
+
+  it('should keep blocks aligned to the widest alignment requested when compacting', () => {
+    const allocator = new Allocator(1024, { littleEndian: true });
+    allocator.allocate(4);
+    const hole = allocator.allocate(4);
+    const array = new ResizableArray(allocator, 4, 'f64');
+    array.push(1.5);
+    expect(array.offset).toBe(INITIAL_HEAP_TOP + 8);
+    allocator.free(hole);
+
+    const relocate = allocator.compact();
+
+    expect(relocate(array.offset)).toBe(INITIAL_HEAP_TOP + 8);
+    expect(allocator.freeBlockCount).toBe(1);
+    expect(array.view()[0]).toBe(1.5);
+
+    // The widest alignment survives a reload
+    const restored = Allocator.fromBuffer(allocator.buffer);
+    restored.compact();
+    expect(restored.freeBlockCount).toBe(1);
+    expect(restored.view.getFloat64(INITIAL_HEAP_TOP + 16, true)).toBe(1.5);
+  });
+
+  it('should compact several holes after the free table has grown to the heap top', () => {
+    const allocator = new Allocator(1024);
+    const small = Array.from({ length: 40 }, () => allocator.allocate(8));
+    small.filter((_, i) => i % 2 === 0).forEach((block) => allocator.free(block));
+    const holes: MemoryBlockRef[] = [];
+    const arrays: ResizableArray[] = [];
+    for (let i = 0; i < 3; i++) {
+      holes.push(allocator.allocate(600));
+      const array = new ResizableArray(allocator, 200);
+      array.pushMany([i, i + 10, i + 20]);
+      arrays.push(array);
+    }
+    holes.forEach((hole) => allocator.free(hole));
+
+    allocator.compact();
+
+    expect(arrays.map((array) => [array.get(0), array.get(1), array.get(2)])).toEqual([
+      [0, 10, 20],
+      [1, 11, 21],
+      [2, 12, 22],
+    ]);
+    expect(() => allocator.validate()).not.toThrow();
+  });
+
+  it('should reject alignments wider than the header can record', () => {
+    const allocator = new Allocator(1024);
+    expect(() => allocator.allocate(8, 2 ** 16)).toThrow('Alignment 65536 is wider than 32768');
+  });
+
+  it('should relocate registered structures and truncate the buffer when compacting', () => {
+    const allocator = new Allocator(1024);
+    const hole = allocator.allocate(100);
+    const block = allocator.allocate(16);
+    allocator.view.setUint32(block.offset, 7);
+    const restored: number[] = [];
+    const id = allocator.registerStructure({ restore: (offset) => restored.push(offset) }, { offset: block.offset });
+    allocator.free(hole);
+
+    let notified: number | undefined;
+    allocator.compact({ truncate: true, onRelocate: (relocate) => (notified = relocate(block.offset)) });
+
+    expect(allocator.buffer.byteLength).toBe(INITIAL_HEAP_TOP + 16);
+    expect(allocator.getStructureOffset(id)).toBe(INITIAL_HEAP_TOP);
+    expect(restored).toEqual([INITIAL_HEAP_TOP]);
+    expect(notified).toBe(INITIAL_HEAP_TOP);
+
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    expect(restoredAllocator.getStructureOffset(id)).toBe(INITIAL_HEAP_TOP);
+    expect(restoredAllocator.view.getUint32(INITIAL_HEAP_TOP)).toBe(7);
+    expect(restoredAllocator.allocate(8).offset).toBe(INITIAL_HEAP_TOP + 16);
+  });
+
+  it('should reject buffers that are not allocator buffers', () => {
+    expect(() => Allocator.fromBuffer(new ArrayBuffer(8))).toThrow(BufferFormatError);
+    expect(() => Allocator.fromBuffer(new ArrayBuffer(1024))).toThrow(InvalidMagicError);
+  });
+
+  it('should reject corrupt buffers', () => {
+    const allocator = new Allocator(1024);
+    allocator.allocate(16);
+    allocator.seal();
+    const buffer = allocator.buffer.slice(0);
+    new DataView(buffer).setUint32(0, 12345);
+
+    expect(() => Allocator.fromBuffer(buffer)).toThrow(ChecksumMismatchError);
+  });
+
+  it('should only checksum buffers when sealed', () => {
+    const allocator = new Allocator(1024);
+    const sealed = allocator.buffer.slice(0);
+    const block = allocator.allocate(16);
+    const unsealed = allocator.buffer.slice(0);
+    new DataView(unsealed).setUint32(4, 0);
+
+    expect(new Uint8Array(sealed)[33] & FORMAT_FLAG_UNSEALED).toBe(0);
+    expect(new Uint8Array(unsealed)[33] & FORMAT_FLAG_UNSEALED).toBe(FORMAT_FLAG_UNSEALED);
+    expect(Allocator.fromBuffer(unsealed).allocate(8).offset).toBe(block.offset + 16);
+
+    allocator.seal();
+    expect(new Uint8Array(allocator.buffer)[33] & FORMAT_FLAG_UNSEALED).toBe(0);
+    expect(Allocator.fromBuffer(allocator.buffer).allocate(8).offset).toBe(block.offset + 16);
+  });
+
+  it('should still reject corrupt tables of unsealed buffers', () => {
+    const allocator = new Allocator(1024);
+    allocator.allocate(16);
+    allocator.seal();
+    const buffer = allocator.buffer.slice(0);
+    const view = new DataView(buffer);
+    view.setUint8(33, view.getUint8(33) | FORMAT_FLAG_UNSEALED);
+    view.setUint32(8, 0xffff);
+
+    expect(() => Allocator.fromBuffer(buffer)).toThrow(BufferFormatError);
+    expect(() => Allocator.fromBuffer(buffer)).toThrow('Corrupt allocator buffer: Structure table holds 65535 entries');
+  });
+
+  it('should reject incompatible buffers', () => {
+    const allocator = new Allocator(1024);
+    const newer = allocator.buffer.slice(0);
+    new DataView(newer).setUint8(32, FORMAT_VERSION + 1);
+
+    expect(() => Allocator.fromBuffer(newer)).toThrow(UnsupportedVersionError);
+    expect(() => Allocator.fromBuffer(allocator.buffer, { littleEndian: true })).toThrow(EndiannessMismatchError);
+    expect(() => Allocator.fromBuffer(allocator.buffer, { alignment: 8 })).toThrow(
+      'Buffer blocks are aligned to 1 bytes, not 8'
+    );
+  });
+
+  it('should store values little-endian when asked to', () => {
+    const allocator = new Allocator(1024, { littleEndian: true });
+    const block = allocator.allocate(4);
+    allocator.view.setUint32(block.offset, 0x01020304);
+
+    expect(new Uint8Array(allocator.buffer, block.offset, 4)).toEqual(new Uint8Array([4, 3, 2, 1]));
+    expect(new DataView(allocator.buffer).getUint32(0, true)).toBe(block.offset + 4);
+
+    const restored = Allocator.fromBuffer(allocator.buffer);
+    expect(restored.littleEndian).toBe(true);
+    expect(restored.view.getUint32(block.offset)).toBe(0x01020304);
+  });
+
+  it('should align block offsets and sizes', () => {
+    const allocator = new Allocator(1024, { alignment: 16 });
+    const first = allocator.allocate(3);
+    const second = allocator.allocate(20);
+    allocator.free(first);
+
+    expect(first.offset % 16).toBe(0);
+    expect(first.size).toBe(16);
+    expect(second.offset).toBe(first.offset + 16);
+    expect(second.size).toBe(32);
+    expect(allocator.allocate(1).offset).toBe(first.offset);
+    expect(Allocator.fromBuffer(allocator.buffer).alignment).toBe(16);
+    expect(() => new Allocator(1024, { alignment: 3 })).toThrow('Alignment 3 is not a power of two');
+  });
+
+  describe('migrations', () => {
+    const registered = new Map<number, FormatMigration | undefined>();
+    const register = (fromVersion: number, migration: FormatMigration) => {
+      if (!registered.has(fromVersion)) registered.set(fromVersion, FormatMigrations.get(fromVersion));
+      FormatMigrations.register(fromVersion, migration);
+    };
+
+    // Puts back whatever was registered before, e.g. the built-in migrations
+    afterEach(() => {
+      for (const [fromVersion, previous] of registered) {
+        if (previous) FormatMigrations.register(fromVersion, previous);
+        else FormatMigrations.unregister(fromVersion);
+      }
+      registered.clear();
+    });
+
+    /** Baseline allocator of `maxFreeBlocks` after allocating 40 and 16 bytes, freeing the first and registering a structure */
+    const legacyBuffer = (maxFreeBlocks = 100) => {
+      const buffer = new ArrayBuffer(2048);
+      const view = new DataView(buffer);
+      const heapStart = 12 + maxFreeBlocks * 8;
+      view.setUint32(0, heapStart + 56);
+      view.setUint32(4, 1);
+      view.setUint32(8, 1);
+      view.setUint32(12, heapStart);
+      view.setUint32(16, 40);
+      view.setUint32(heapStart + 40, 0xcafebabe);
+      // The legacy structure table starts where the heap does, in the freed block here
+      view.setUint32(heapStart, 7);
+      view.setUint32(heapStart + 4, heapStart + 40);
+      return { buffer, heapStart };
+    };
+
+    it('should migrate the legacy unversioned layout', () => {
+      const { buffer, heapStart } = legacyBuffer();
+
+      const allocator = Allocator.fromBuffer(buffer);
+
+      expect(allocator.view.getUint8(32)).toBe(FORMAT_VERSION);
+      expect(allocator.view.getUint32(heapStart + 40)).toBe(0xcafebabe);
+      expect(allocator.getStructureOffset(7)).toBe(heapStart + 40);
+      expect(allocator.freeBlockCount).toBe(1);
+      expect(allocator.freeBlockOffset(0)).toBe(40);
+      expect(allocator.freeBlockSize(0)).toBe(heapStart);
+      allocator.validate();
+      expect(allocator.allocate(16).offset).toBe(40);
+      expect(allocator.registerStructure({ restore: () => undefined }, { offset: 40 })).toBe(8);
+      expect(Allocator.fromBuffer(allocator.buffer).view.getUint32(heapStart + 40)).toBe(0xcafebabe);
+    });
+
+    it('should migrate legacy buffers of another free table size through a registered migration', () => {
+      const { buffer, heapStart } = legacyBuffer(20);
+      register(1, legacyFormatMigration(20));
+
+      const allocator = Allocator.fromBuffer(buffer);
+
+      expect(allocator.getStructureOffset(7)).toBe(heapStart + 40);
+      expect(allocator.freeBlockSize(0)).toBe(heapStart);
+      allocator.validate();
+    });
+
+    it('should reject buffers whose counts do not fit the legacy layout', () => {
+      const short = new ArrayBuffer(64);
+      new DataView(short).setUint32(0, 20);
+      expect(() => Allocator.fromBuffer(short)).toThrow('Legacy heap top 20 is inside the free table of 100 entries');
+
+      const crowded = legacyBuffer().buffer;
+      new DataView(crowded).setUint32(4, 101);
+      expect(() => Allocator.fromBuffer(crowded)).toThrow(BufferFormatError);
+
+      const stray = legacyBuffer().buffer;
+      new DataView(stray).setUint32(12, 2000);
+      expect(() => Allocator.fromBuffer(stray)).toThrow('Legacy free block 2000+40 is outside the heap');
+
+      const lost = legacyBuffer().buffer;
+      new DataView(lost).setUint32(812 + 4, 4000);
+      expect(() => Allocator.fromBuffer(lost)).toThrow('Legacy structure 7 at 4000 is outside the heap');
+    });
+
+    it('should validate buffers after migrating them', () => {
+      const { buffer } = legacyBuffer();
+      // A migration bug placing a free block past the heap top
+      register(1, (buffer) => {
+        const migrated = legacyFormatMigration()(buffer);
+        new DataView(migrated).setUint32(new DataView(migrated).getUint32(12), 4000);
+        return migrated;
+      });
+
+      expect(() => Allocator.fromBuffer(buffer)).toThrow('Corrupt allocator buffer: Free block 4000+');
+    });
+
+    it('should still reject buffers that are neither allocator nor legacy buffers', () => {
+      const buffer = new ArrayBuffer(1024);
+      new DataView(buffer).setUint32(0, 4096);
+
+      expect(() => Allocator.fromBuffer(buffer)).toThrow(InvalidMagicError);
+    });
+
+    it('should load older versions through migrations', () => {
+      const allocator = new Allocator(1024);
+      const block = allocator.allocate(4);
+      allocator.view.setUint32(block.offset, 99);
+      const old = allocator.buffer.slice(0);
+      const view = new DataView(old);
+      view.setUint8(32, 0);
+      view.setUint32(block.offset, 0);
+
+      expect(() => Allocator.fromBuffer(old)).toThrow(UnsupportedVersionError);
+
+      register(0, (buffer) => {
+        const migrated = buffer.slice(0);
+        new DataView(migrated).setUint8(32, 1);
+        new DataView(migrated).setUint32(block.offset, 99);
+        return migrated;
+      });
+      register(1, (buffer) => {
+        const migrated = buffer.slice(0);
+        new DataView(migrated).setUint8(32, FORMAT_VERSION);
+        return migrated;
+      });
+
+      const restored = Allocator.fromBuffer(old);
+      expect(restored.view.getUint32(block.offset)).toBe(99);
+      expect(() => Allocator.fromBuffer(restored.buffer)).not.toThrow();
+    });
+  });
+
+  it('should align single allocations and keep the padding free', () => {
+    const allocator = new Allocator(1024);
+    allocator.allocate(3);
+    const aligned = allocator.allocate(8, 64);
+
+    expect(aligned.offset % 64).toBe(0);
+    expect(allocator.freeBlockCount).toBe(1);
+    expect(allocator.freeBlockOffset(0)).toBe(INITIAL_HEAP_TOP + 3);
+
+    allocator.free(aligned);
+    const again = allocator.allocate(8, 32);
+    expect(again.offset % 32).toBe(0);
+    expect(() => allocator.allocate(8, 12)).toThrow('Alignment 12 is not a power of two');
+  });
+
+  it('should grow a block in place into the heap tail', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(16);
+    allocator.view.setUint32(block.offset, 5);
+
+    const grown = allocator.reallocate(block, 2000);
+    expect(grown.offset).toBe(block.offset);
+    expect(grown.size).toBe(2000);
+    expect(allocator.view.getUint32(0)).toBe(block.offset + 2000);
+    expect(allocator.view.getUint32(block.offset)).toBe(5);
+  });
+
+  it('should grow a block in place into the following free block', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(16);
+    const next = allocator.allocate(32);
+    allocator.allocate(8);
+    allocator.free(next);
+
+    const grown = allocator.reallocate(block, 40);
+    expect(grown.offset).toBe(block.offset);
+    expect(allocator.freeBlockCount).toBe(1);
+    expect(allocator.freeBlockOffset(0)).toBe(block.offset + 40);
+    expect(allocator.freeBlockSize(0)).toBe(8);
+  });
+
+  it('should move a block only when it cannot grow in place', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(16);
+    allocator.allocate(8);
+    allocator.view.setUint32(block.offset + 12, 77);
+
+    const moved = allocator.reallocate(block, 32);
+    expect(moved.offset).not.toBe(block.offset);
+    expect(allocator.view.getUint32(moved.offset + 12)).toBe(77);
+    expect(allocator.freeBlockOffset(0)).toBe(block.offset);
+
+    const shrunk = allocator.reallocate(moved, 8);
+    expect(shrunk.offset).toBe(moved.offset);
+    expect(allocator.freeBlockCount).toBe(2);
+    expect(allocator.freeBlockOffset(1)).toBe(moved.offset + 8);
+  });
+
+  it('should report heap statistics', () => {
+    const allocator = new Allocator(1024);
+    const first = allocator.allocate(100);
+    allocator.allocate(50);
+    const third = allocator.allocate(30);
+    const last = allocator.allocate(10);
+    allocator.free(first);
+    allocator.free(third);
+    allocator.registerStructure({ restore: () => undefined }, { offset: last.offset });
+    allocator.allocate(500);
+
+    expect(allocator.stats()).toEqual({
+      bytesInUse: INITIAL_HEAP_TOP - 40 + 50 + 10 + 500,
+      freeBytes: 130,
+      largestFreeBlock: 100,
+      fragmentation: 1 - 100 / 130,
+      freeBlockCount: 2,
+      structureCount: 1,
+      growthCount: 1,
+      heapTop: INITIAL_HEAP_TOP + 690,
+      bufferSize: 2048,
+    });
+  });
+
+  it('should walk live and free regions in order', () => {
+    const allocator = new Allocator(1024);
+    const first = allocator.allocate(100);
+    allocator.allocate(50);
+    allocator.free(first);
+
+    expect([...allocator.walk()]).toEqual([
+      { offset: 40, size: INITIAL_HEAP_TOP - 40, free: false },
+      { offset: INITIAL_HEAP_TOP, size: 100, free: true },
+      { offset: INITIAL_HEAP_TOP + 100, size: 50, free: false },
+    ]);
+  });
+
+  it('should grow as far as a large allocation needs at once', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(10000);
+
+    expect(allocator.buffer.byteLength).toBe(16384);
+    expect(allocator.stats().growthCount).toBe(1);
+    expect(block.offset + block.size).toBeLessThanOrEqual(allocator.buffer.byteLength);
+  });
+
+  it('should follow the growth policy and report every growth', () => {
+    const growths: [number, number][] = [];
+    const stepped = new Allocator(1024, { growth: fixedStepGrowth(512), onGrow: (from, to) => growths.push([from, to]) });
+    stepped.allocate(1000);
+    const fitted = new Allocator(1024, { growth: toFitGrowth });
+    fitted.allocate(1000);
+
+    expect(stepped.buffer.byteLength).toBe(1536);
+    expect(growths).toEqual([[1024, 1536]]);
+    expect(fitted.buffer.byteLength).toBe(INITIAL_HEAP_TOP + 1000);
+  });
+
+  it('should throw an OutOfMemoryError past maxBytes', () => {
+    const allocator = new Allocator(1024, { maxBytes: 1536 });
+    allocator.allocate(1000);
+    expect(allocator.buffer.byteLength).toBe(1536);
+
+    expect(() => allocator.allocate(200)).toThrow(OutOfMemoryError);
+    expect(allocator.stats().heapTop).toBe(INITIAL_HEAP_TOP + 1000);
+    expect(() => new Allocator(4096, { maxBytes: 1024 })).toThrow('Allocator needs 4096 bytes but is limited to 1024');
+  });
+
+  it('should notify listeners when the buffer is replaced', () => {
+    const allocator = new Allocator(1024);
+    const buffers: ArrayBuffer[] = [];
+    const unsubscribe = allocator.onBufferChanged((buffer) => buffers.push(buffer));
+
+    allocator.allocate(2000);
+    const hole = allocator.allocate(100);
+    allocator.allocate(8);
+    allocator.free(hole);
+    allocator.compact({ truncate: true });
+    unsubscribe();
+    allocator.allocate(5000);
+
+    expect(buffers).toHaveLength(2);
+    expect(buffers[1].byteLength).toBe(INITIAL_HEAP_TOP + 2008);
+    expect(buffers[1]).not.toBe(allocator.buffer);
+  });
+
+  describe('shared', () => {
+    it('should let attached allocators share the heap without copying', () => {
+      const main = new Allocator(1024, { shared: true });
+      const worker = Allocator.attach(main.buffer as SharedArrayBuffer);
+      const first = main.allocate(16);
+      const second = worker.allocate(16);
+      worker.view.setUint32(first.offset, 7);
+
+      expect(main.buffer).toBeInstanceOf(SharedArrayBuffer);
+      expect(worker.buffer).toBe(main.buffer);
+      expect(second.offset).toBe(first.offset + 16);
+      expect(main.view.getUint32(first.offset)).toBe(7);
+      expect(main.view.getUint8(35)).toBe(0);
+
+      main.free(first);
+      expect(worker.allocate(8).offset).toBe(first.offset);
+      expect(() => main.validate()).not.toThrow();
+    });
+
+    it('should pick up structures changed by another agent on sync', () => {
+      const main = new Allocator(1024, { shared: true });
+      const array = new ResizableArray(main, 2);
+      array.push(1);
+      const worker = Allocator.attach(main.buffer as SharedArrayBuffer);
+      const view = worker.getStructure<ResizableArray>(array.__ID);
+      expect([...view]).toEqual([1]);
+
+      new ResizableArray(worker, 2);
+      for (let i = 2; i <= 5; i++) {
+        array.push(i);
+      }
+      worker.sync();
+
+      expect([...view]).toEqual([1, 2, 3, 4, 5]);
+      expect(view.offset).toBe(array.offset);
+      main.sync();
+      expect(main.structureEntries()).toHaveLength(2);
+    });
+
+    it('should only rebuild the strategy after another agent changed the free table', () => {
+      const strategy = new SegregatedFitStrategy();
+      const main = new Allocator(1024, { shared: true, strategy });
+      const worker = Allocator.attach(main.buffer as SharedArrayBuffer);
+      const blocks = [16, 24, 32, 40].map((size) => main.allocate(size));
+      const reset = vi.spyOn(strategy, 'reset');
+
+      main.free(blocks[1]);
+      main.free(blocks[3]);
+      main.registerStructure({ restore: () => undefined }, { offset: blocks[0].offset });
+      expect(reset).not.toHaveBeenCalled();
+
+      worker.free(blocks[2]);
+      expect(main.allocate(56).offset).toBe(blocks[1].offset);
+      main.allocate(8);
+      expect(reset).toHaveBeenCalledTimes(1);
+
+      // Sealing rewrites the counter with the checksum, the next agent has to rebuild once
+      worker.seal();
+      main.allocate(8);
+      main.allocate(8);
+      expect(reset).toHaveBeenCalledTimes(2);
+      expect(() => main.validate()).not.toThrow();
+    });
+
+    it('should not grow or truncate a shared buffer', () => {
+      const allocator = new Allocator(1024, { shared: true });
+
+      expect(() => allocator.allocate(1000)).toThrow(OutOfMemoryError);
+      expect(allocator.view.getUint8(35)).toBe(0);
+      expect(() => allocator.compact({ truncate: true })).toThrow('A shared buffer cannot be truncated');
+      expect(allocator.allocate(100).offset).toBe(INITIAL_HEAP_TOP);
+    });
+
+    it('should load a private copy of a shared buffer', () => {
+      const allocator = new Allocator(1024, { shared: true });
+      allocator.allocate(16);
+      const copy = Allocator.fromBuffer(allocator.buffer);
+
+      expect(copy.shared).toBe(false);
+      expect(copy.buffer).toBeInstanceOf(ArrayBuffer);
+      expect(copy.stats().heapTop).toBe(INITIAL_HEAP_TOP + 16);
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should rewind the heap, free table and structures', () => {
+      const allocator = new Allocator(2048);
+      const array = new ResizableArray(allocator, 4, 'u32');
+      array.push(1);
+      const block = allocator.allocate(32);
+      const frame = allocator.checkpoint();
+      const before = new Uint8Array(allocator.buffer).slice();
+
+      array.push(2);
+      array.push(3);
+      allocator.free(block);
+      const extra = new ResizableArray(allocator, 4, 'u8');
+      allocator.checkpoint();
+      array.push(4);
+      array.push(5);
+
+      allocator.rewind(frame);
+
+      expect(new Uint8Array(allocator.buffer)).toEqual(before);
+      expect(array.length).toBe(1);
+      expect(array.get(0)).toBe(1);
+      expect(allocator.freeBlockCount).toBe(0);
+      expect(allocator.structureEntries().map((entry) => entry.id)).toEqual([array.__ID]);
+      expect(() => allocator.getStructure(extra.__ID)).toThrow();
+      expect(allocator.checkpoints).toEqual([frame]);
+      allocator.validate();
+    });
+
+    it('should tell rewind listeners once structures reloaded', () => {
+      const allocator = new Allocator(1024);
+      const array = new ResizableArray(allocator, 4, 'u32');
+      const frame = allocator.checkpoint();
+      const extra = new ResizableArray(allocator, 4, 'u8');
+      const seen: [number, number, boolean][] = [];
+      const unsubscribe = allocator.onRewind((id) => seen.push([id, array.length, allocator.hasStructure(extra.__ID)]));
+      array.push(1);
+
+      allocator.rewind(frame);
+      unsubscribe();
+      allocator.rewind(frame);
+
+      expect(seen).toEqual([[frame, 0, false]]);
+    });
+
+    it('should rewind across buffer growth', () => {
+      const allocator = new Allocator(512);
+      const array = new ResizableArray(allocator, 2, 'f64');
+      array.push(0.5);
+      const frame = allocator.checkpoint();
+      const buffers: ArrayBufferLike[] = [];
+      allocator.onBufferChanged((buffer) => buffers.push(buffer));
+
+      for (let i = 0; i < 200; i++) array.push(i);
+      expect(allocator.buffer.byteLength).toBeGreaterThan(512);
+      allocator.checkpoint();
+      allocator.rewind(frame);
+
+      expect(allocator.buffer.byteLength).toBe(512);
+      expect(buffers[buffers.length - 1]).toBe(allocator.buffer);
+      expect(array.length).toBe(1);
+      expect(array.get(0)).toBe(0.5);
+      array.push(1.5);
+      expect(array.get(1)).toBe(1.5);
+    });
+
+    it('should only keep the configured number of checkpoints', () => {
+      const allocator = new Allocator(1024, { checkpoints: 3 });
+      const array = new ResizableArray(allocator, 16, 'u32');
+      const frames: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        array.push(i);
+        frames.push(allocator.checkpoint());
+      }
+
+      expect(allocator.checkpoints).toEqual(frames.slice(2));
+      expect(() => allocator.rewind(frames[1])).toThrow(`Checkpoint ${frames[1]} is not available`);
+      allocator.rewind(frames[2]);
+      expect(array.length).toBe(3);
+    });
+
+    it('should rewind a shared heap in place', () => {
+      const allocator = new Allocator(1024, { shared: true });
+      const array = new ResizableArray(allocator, 4, 'u32');
+      const frame = allocator.checkpoint();
+      const buffer = allocator.buffer;
+      array.push(7);
+
+      allocator.rewind(frame);
+
+      expect(allocator.buffer).toBe(buffer);
+      expect(array.length).toBe(0);
+      expect(allocator.allocate(8).offset).toBeGreaterThan(0);
+    });
+
+    it('should make other agents rebuild their strategy after a shared rewind', () => {
+      const main = new Allocator(1024, { shared: true });
+      const worker = Allocator.attach(main.buffer as SharedArrayBuffer, { strategy: new SegregatedFitStrategy() });
+      const first = main.allocate(16);
+      const second = main.allocate(16);
+      main.allocate(16);
+      const frame = main.checkpoint();
+      main.free(first);
+      worker.sync();
+
+      // Without moving on, the counter would be back at the value the worker saw with `first` free
+      main.rewind(frame);
+      main.free(second);
+
+      expect(worker.allocate(16).offset).toBe(second.offset);
+    });
+  });
 });
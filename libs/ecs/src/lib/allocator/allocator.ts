@@ -1,3 +1,23 @@
+import {
+  BufferFormatError,
+  ChecksumMismatchError,
+  EndiannessMismatchError,
+  FORMAT_FLAG_LITTLE_ENDIAN,
+  FORMAT_FLAG_UNSEALED,
+  FORMAT_MAGIC,
+  FORMAT_VERSION,
+  FormatMigrations,
+  InvalidMagicError,
+  UnsupportedVersionError,
+  crc32,
+} from './buffer-format';
+import { CheckpointRing } from './checkpoint-ring';
+import { createView } from './endian-view';
+import { LEGACY_FORMAT_VERSION, isLegacyBuffer } from './legacy-format';
+import { GrowthPolicy, OutOfMemoryError, doublingGrowth } from './growth-policy';
+import { AllocationStrategy, FreeBlockSource } from './strategies/allocation-strategy';
+import { FirstFitStrategy } from './strategies/first-fit';
+import { STRUCTURE_TYPE_UNKNOWN, StructureEntry, StructureRegistry } from './structures/structure-registry';
 import { IResizableStruct, IFixedStruct } from './structures/structures.types';
 
 export class MemoryBlockRef {
@@ -7,13 +27,107 @@ export class MemoryBlockRef {
   ) {}
 }
 
-export class Allocator {
-  private _buffer: ArrayBuffer;
+// Header layout (Uint32 unless noted):
+//  0 heap top, 4 free block count, 8 structures count (the structure table length),
+// 12 free table offset, 16 free table capacity (the most free blocks tracked without growing),
+// 20 structure table offset, 24 structure table capacity,
+// 28 magic bytes, 32 format version (Uint8), 33 flags (Uint8),
+// 34 log2 of the block alignment (low nibble) and of the widest alignment ever requested (high nibble),
+// 35 lock of shared allocators (Uint8), 36 CRC-32 of the bytes before it and both tables, current unless flagged unsealed.
+// While unsealed, 36 instead counts the changes to the free table so shared agents know when to rebuild their strategy
+// Free table entries are offset and size, structure table entries are id, type, offset and param
+const HEADER_SIZE = 40;
+const MAGIC_OFFSET = 28;
+const VERSION_OFFSET = 32;
+const FLAGS_OFFSET = 33;
+const ALIGNMENT_OFFSET = 34;
+const LOCK_OFFSET = 35;
+const CHECKSUM_OFFSET = 36;
+// Both alignments of the header share a byte
+const MAX_ALIGNMENT = 2 ** 15;
+const INITIAL_TABLE_CAPACITY = 16;
+const FREE_ENTRY_SIZE = 8;
+const STRUCTURE_ENTRY_SIZE = 16;
+const UNLOCKED = new Uint8Array(1);
+
+export interface AllocatorOptions {
+  /** Picks the free block for each allocation, first-fit by default */
+  strategy?: AllocationStrategy;
+  /** Byte order of every value in the buffer, big-endian by default */
+  littleEndian?: boolean;
+  /** Power of two every block offset and size is rounded to, 1 by default */
+  alignment?: number;
+  /** How the buffer grows when the heap is full, doubling by default */
+  growth?: GrowthPolicy;
+  /** Upper bound of the buffer size, growing past it throws an `OutOfMemoryError` */
+  maxBytes?: number;
+  /** Called after every growth, once structures point into the new buffer */
+  onGrow?: (oldSize: number, newSize: number) => void;
+  /**
+   * Backs the heap with a SharedArrayBuffer other agents can `attach` to.
+   * A shared buffer is never replaced, so it cannot grow past its initial size.
+   */
+  shared?: boolean;
+  /** Number of checkpoints `rewind` can go back to, 8 by default */
+  checkpoints?: number;
+}
+
+export interface AllocatorStats {
+  /** Heap bytes not in the free table, including the allocator's own tables */
+  bytesInUse: number;
+  freeBytes: number;
+  largestFreeBlock: number;
+  /** Share of the free bytes outside the largest free block, 0 when they are contiguous */
+  fragmentation: number;
+  freeBlockCount: number;
+  structureCount: number;
+  /** Number of times the buffer had to grow since this allocator was created or loaded */
+  growthCount: number;
+  heapTop: number;
+  bufferSize: number;
+}
+
+/** Adjacent allocated blocks show up as one live region */
+export interface HeapRegion {
+  offset: number;
+  size: number;
+  free: boolean;
+}
+
+/** Called with the new buffer whenever the allocator replaces its buffer */
+export type BufferChangedListener = (buffer: ArrayBufferLike) => void;
+
+/** Maps an offset from before a `compact` pass to where its bytes live afterwards */
+export type Relocation = (offset: number) => number;
+
+export interface CompactOptions {
+  /** Drops the buffer tail past the new heap top */
+  truncate?: boolean;
+  /** Called once the live blocks moved, for owners of blocks that are not registered structures */
+  onRelocate?: (relocate: Relocation) => void;
+}
+
+export class Allocator implements FreeBlockSource {
+  private _buffer: ArrayBufferLike;
   private _view: DataView;
-  private readonly _structures: Map<number, { offset: number, struct: IResizableStruct | IFixedStruct }> = new Map();
+  private readonly _strategy: AllocationStrategy;
+  private readonly _littleEndian: boolean;
+  private readonly _alignment: number;
+  private readonly _growth: GrowthPolicy;
+  private readonly _maxBytes: number;
+  private readonly _onGrow?: (oldSize: number, newSize: number) => void;
+  private readonly _structures: Map<number, { offset: number, struct?: IResizableStruct | IFixedStruct }> = new Map();
   private _nextId = 0;
+  private _growthCount = 0;
+  private readonly _bufferListeners = new Set<BufferChangedListener>();
+  private readonly _rewindListeners = new Set<(id: number) => void>();
+  private _shared: boolean;
+  private _lockDepth = 0;
+  /** Value of the header's change counter when this agent last released the lock, never a Uint32 before that */
+  private _seenChanges = -1;
+  private readonly _checkpoints: CheckpointRing;
 
-  public get buffer(): ArrayBuffer {
+  public get buffer(): ArrayBufferLike {
     return this._buffer;
   }
 
@@ -21,139 +135,628 @@ export class Allocator {
     return this._view;
   }
 
+  public get littleEndian(): boolean {
+    return this._littleEndian;
+  }
+
+  public get alignment(): number {
+    return this._alignment;
+  }
+
+  public get shared(): boolean {
+    return this._shared;
+  }
+
+  public get freeBlockCount(): number {
+    return this._view.getUint32(4);
+  }
+
+  private get freeTableOffset(): number {
+    return this._view.getUint32(12);
+  }
+
+  private get structureTableOffset(): number {
+    return this._view.getUint32(20);
+  }
+
   constructor(
     private readonly _initialBufferSize: number,
-    private readonly maxFreeBlocks = 100
+    options: AllocatorOptions = {}
   ) {
-    this._buffer = new ArrayBuffer(this._initialBufferSize);
-    this._view = new DataView(this._buffer);
-    // Initialize offset to account for initial metadata
-    const initialOffset = 12 + this.maxFreeBlocks * 8;
-    this._view.setUint32(0, initialOffset); // Set initial offset for memory allocation
+    this._strategy = options.strategy ?? new FirstFitStrategy();
+    this._littleEndian = options.littleEndian ?? false;
+    this._alignment = Allocator.checkAlign(options.alignment ?? 1);
+    this._growth = options.growth ?? doublingGrowth;
+    this._maxBytes = options.maxBytes ?? Infinity;
+    this._onGrow = options.onGrow;
+    this._checkpoints = new CheckpointRing(options.checkpoints ?? 8);
+    if (this._initialBufferSize > this._maxBytes) {
+      throw new OutOfMemoryError(this._initialBufferSize, this._maxBytes);
+    }
+    this._shared = options.shared ?? false;
+    if (this._shared && typeof SharedArrayBuffer === 'undefined') {
+      throw new Error('SharedArrayBuffer is not available');
+    }
+    this._buffer = this._shared ? new SharedArrayBuffer(this._initialBufferSize) : new ArrayBuffer(this._initialBufferSize);
+    this._view = createView(this._buffer, this._littleEndian);
+    this._view.setUint32(0, HEADER_SIZE); // Set initial offset for memory allocation
     this._view.setUint32(4, 0); // Initialize free block count
     this._view.setUint32(8, 0); // Initialize structures count
+    FORMAT_MAGIC.forEach((byte, i) => this._view.setUint8(MAGIC_OFFSET + i, byte));
+    this._view.setUint8(VERSION_OFFSET, FORMAT_VERSION);
+    this._view.setUint8(FLAGS_OFFSET, this._littleEndian ? FORMAT_FLAG_LITTLE_ENDIAN : 0);
+    this._view.setUint8(ALIGNMENT_OFFSET, Math.log2(this._alignment));
+
+    // Both tables live in the heap itself and move when they grow
+    const freeTable = this.allocateTop(INITIAL_TABLE_CAPACITY * FREE_ENTRY_SIZE);
+    this._view.setUint32(12, freeTable);
+    this._view.setUint32(16, INITIAL_TABLE_CAPACITY);
+    const structureTable = this.allocateTop(INITIAL_TABLE_CAPACITY * STRUCTURE_ENTRY_SIZE);
+    this._view.setUint32(20, structureTable);
+    this._view.setUint32(24, INITIAL_TABLE_CAPACITY);
+    this._strategy.reset(this);
+    this.seal();
   }
 
-  public allocate(size: number): MemoryBlockRef {
-    const freeBlockCount = this._view.getUint32(4);
-
-    // Try to find a suitable free block
-    for (let i = 0; i < freeBlockCount; i++) {
-      const offset = 12 + i * 8;
-      const blockOffset = this._view.getUint32(offset);
-      const blockSize = this._view.getUint32(offset + 4);
-      if (blockSize >= size) {
-        const remainingSize = blockSize - size;
-
-        if (remainingSize > 0) {
-          // Update the free block with the remaining size
-          this._view.setUint32(offset, blockOffset + size);
-          this._view.setUint32(offset + 4, remainingSize);
-        } else {
-          // Remove the free block if it is completely used
-          this.removeFreeBlock(i);
+  /** `align` may only widen the allocator's own alignment */
+  public allocate(size: number, align = this._alignment): MemoryBlockRef {
+    return this.locked(() => {
+      size = this.alignUp(size);
+      align = Math.max(Allocator.checkAlign(align), this._alignment);
+      // A wider alignment may split the free block in three
+      if (align > this._alignment) {
+        this.ensureTableCapacity(4, 12, 16, FREE_ENTRY_SIZE);
+        this.widenAlignment(align);
+      }
+
+      // Try to find a suitable free block, large enough for the worst padding
+      const blockOffset = this._strategy.find(size + align - this._alignment, this);
+      if (blockOffset !== -1) {
+        const index = this.findFreeBlock(blockOffset);
+        const blockSize = this.freeBlockSize(index);
+        const offset = this.alignUp(blockOffset, align);
+        this.removeFreeBlock(index);
+        // The padding and the remainder keep the same position in the offset-sorted table
+        let next = index;
+        if (offset > blockOffset) {
+          this.insertFreeBlock(next++, blockOffset, offset - blockOffset);
         }
+        if (blockOffset + blockSize > offset + size) {
+          this.insertFreeBlock(next, offset + size, blockOffset + blockSize - offset - size);
+        }
+        this.unseal();
+        return new MemoryBlockRef(offset, size);
+      }
 
-        return new MemoryBlockRef(blockOffset, size);
+      // If no suitable free block, allocate at the end
+      const block = new MemoryBlockRef(this.allocateTop(size, align), size);
+      this.unseal();
+      return block;
+    });
+  }
+
+  /**
+   * Resizes a block, in place when it shrinks or when the free block or heap
+   * tail right after it has room. Otherwise the contents move to a new block
+   * aligned to `align` and the old one is freed.
+   */
+  public reallocate(block: MemoryBlockRef, newSize: number, align = this._alignment): MemoryBlockRef {
+    return this.locked(() => {
+      const size = this.alignUp(block.size);
+      newSize = this.alignUp(newSize);
+      if (newSize <= size) {
+        if (newSize < size) {
+          this.release(new MemoryBlockRef(block.offset + newSize, size - newSize));
+        }
+        return new MemoryBlockRef(block.offset, newSize);
       }
-    }
 
-    // If no suitable free block, allocate at the end
-    let offset = this._view.getUint32(0);
-    if (offset + size > this._buffer.byteLength) {
-      this.expandBuffer();
-      offset = this._view.getUint32(0);
-    }
-    this._view.setUint32(0, offset + size);
-    return new MemoryBlockRef(offset, size);
+      const end = block.offset + size;
+      const index = this.findFreeBlock(end);
+      const next = index < this.freeBlockCount && this.freeBlockOffset(index) === end ? this.freeBlockSize(index) : 0;
+      const heapTop = this._view.getUint32(0);
+      if (end + next === heapTop) {
+        // Everything after the block is unused, move the heap top instead
+        this.ensureBufferSize(block.offset + newSize);
+        if (next > 0) this.removeFreeBlock(index);
+        this._view.setUint32(0, block.offset + newSize);
+        this.unseal();
+        return new MemoryBlockRef(block.offset, newSize);
+      }
+      if (next >= newSize - size) {
+        this.removeFreeBlock(index);
+        if (next > newSize - size) {
+          this.insertFreeBlock(index, block.offset + newSize, next - (newSize - size));
+        }
+        this.unseal();
+        return new MemoryBlockRef(block.offset, newSize);
+      }
+
+      const moved = this.allocate(newSize, align);
+      new Uint8Array(this._buffer).copyWithin(moved.offset, block.offset, block.offset + size);
+      this.release(block);
+      return moved;
+    });
   }
 
   public free(block: MemoryBlockRef) {
-    const freeBlockCount = this._view.getUint32(4);
-    if (freeBlockCount >= this.maxFreeBlocks) {
-      throw new Error('Free block list is full');
+    this.locked(() => {
+      this.release(block);
+    });
+  }
+
+  /** Returns a block to the free table, used for blocks the allocator frees on its own */
+  private release(block: MemoryBlockRef) {
+    this.ensureTableCapacity(4, 12, 16, FREE_ENTRY_SIZE);
+    const count = this.freeBlockCount;
+    const index = this.findFreeBlock(block.offset);
+    let offset = block.offset;
+    let size = this.alignUp(block.size);
+
+    // Merge with the adjacent free blocks on either side
+    if (index < count && this.freeBlockOffset(index) === offset + size) {
+      size += this.freeBlockSize(index);
+      this.removeFreeBlock(index);
     }
-    const offset = 12 + freeBlockCount * 8;
-    this._view.setUint32(offset, block.offset);
-    this._view.setUint32(offset + 4, block.size);
-    this._view.setUint32(4, freeBlockCount + 1);
-    this.coalesceFreeBlocks();
+    if (index > 0 && this.freeBlockOffset(index - 1) + this.freeBlockSize(index - 1) === offset) {
+      offset = this.freeBlockOffset(index - 1);
+      size += this.freeBlockSize(index - 1);
+      this.removeFreeBlock(index - 1);
+      this.insertFreeBlock(index - 1, offset, size);
+    } else {
+      this.insertFreeBlock(index, offset, size);
+    }
+    this.unseal();
   }
 
-  private removeFreeBlock(index: number) {
-    const freeBlockCount = this._view.getUint32(4) - 1;
-    this._view.setUint32(4, freeBlockCount);
-    if (index < freeBlockCount) {
-      const lastOffset = 12 + freeBlockCount * 8;
-      const offset = 12 + index * 8;
-      this._view.setUint32(offset, this._view.getUint32(lastOffset));
-      this._view.setUint32(offset + 4, this._view.getUint32(lastOffset + 4));
+  /**
+   * Slides every live block down over the free blocks and lowers the heap top.
+   * Blocks only move by multiples of the widest alignment ever requested, so
+   * part of a free block may remain in front of them.
+   * Registered structures are restored at their new offsets, any other block
+   * offset held outside the buffer must be passed through the returned relocation.
+   */
+  public compact({ truncate = false, onRelocate }: CompactOptions = {}): Relocation {
+    if (truncate && this._shared) {
+      throw new Error('A shared buffer cannot be truncated');
     }
+    return this.locked(() => {
+      const count = this.freeBlockCount;
+      const align = this.widestAlignment;
+      const heapTop = this._view.getUint32(0);
+      const freeOffsets: number[] = [];
+      const shifts: number[] = [];
+      // The free table lives in the heap and may be overwritten by a run moving down, so the runs are read up front
+      const runs: Array<[start: number, end: number]> = [];
+      const remaining: MemoryBlockRef[] = [];
+      let end = count > 0 ? this.freeBlockOffset(0) : heapTop;
+      for (let i = 0; i < count; i++) {
+        // Live bytes between two free blocks move as one run
+        const start = this.freeBlockOffset(i) + this.freeBlockSize(i);
+        const runEnd = i + 1 < count ? this.freeBlockOffset(i + 1) : heapTop;
+        const shift = runEnd > start ? Math.floor((start - end) / align) * align : start - end;
+        if (start - shift > end) {
+          remaining.push(new MemoryBlockRef(end, start - shift - end));
+        }
+        freeOffsets.push(this.freeBlockOffset(i));
+        shifts.push(shift);
+        runs.push([start, runEnd]);
+        end = runEnd - shift;
+      }
+
+      // Offsets past the n-th free block move down by the shift of the run after it
+      const relocate: Relocation = (offset) => {
+        let low = 0;
+        let high = count;
+        while (low < high) {
+          const mid = (low + high) >>> 1;
+          if (freeOffsets[mid] < offset) low = mid + 1;
+          else high = mid;
+        }
+        return low === 0 ? offset : offset - shifts[low - 1];
+      };
+
+      const bytes = new Uint8Array(this._buffer);
+      runs.forEach(([start, runEnd], i) => bytes.copyWithin(start - shifts[i], start, runEnd));
+
+      this._view.setUint32(0, end);
+      this._view.setUint32(12, relocate(this.freeTableOffset));
+      this._view.setUint32(20, relocate(this.structureTableOffset));
+      this._view.setUint32(4, remaining.length);
+      remaining.forEach((block, i) => {
+        this._view.setUint32(this.freeTableOffset + i * FREE_ENTRY_SIZE, block.offset);
+        this._view.setUint32(this.freeTableOffset + i * FREE_ENTRY_SIZE + 4, block.size);
+      });
+      const structuresCount = this._view.getUint32(8);
+      for (let i = 0; i < structuresCount; i++) {
+        const entry = this.structureTableOffset + i * STRUCTURE_ENTRY_SIZE + 8;
+        this._view.setUint32(entry, relocate(this._view.getUint32(entry)));
+      }
+
+      if (truncate) {
+        this._buffer = this._buffer.slice(0, end);
+        this._view = createView(this._buffer, this._littleEndian);
+      }
+      this._strategy.reset(this);
+      this.freeTableChanged();
+      this.restoreStructures();
+      onRelocate?.(relocate);
+      if (truncate) {
+        this.notifyBufferChanged();
+      }
+      return relocate;
+    });
+  }
+
+  /** Checkpoints `rewind` can still go back to, oldest first */
+  public get checkpoints(): ReadonlyArray<number> {
+    return this._checkpoints.ids;
+  }
+
+  /**
+   * Records the current heap, free table and structure table. Only the pages
+   * changed since the previous checkpoint are kept, the oldest checkpoint is
+   * dropped once more than the `checkpoints` option are held. Finding them scans
+   * the whole heap, see `CheckpointRing`.
+   */
+  public checkpoint(): number {
+    return this.locked(() => this._checkpoints.capture(new Uint8Array(this._buffer)));
+  }
+
+  /**
+   * Brings the heap back to checkpoint `id` and drops the checkpoints taken after it.
+   * Registered structures reload their metadata, then the `onRewind` listeners run.
+   * Other agents of a shared buffer must `sync`.
+   */
+  public rewind(id: number) {
+    this.locked(() => {
+      const changes = this._view.getUint32(CHECKSUM_OFFSET);
+      const heap = this._checkpoints.restore(id, new Uint8Array(this._buffer));
+      const replaced = heap.buffer !== this._buffer;
+      if (replaced) {
+        this._buffer = heap.buffer;
+        this._view = createView(this._buffer, this._littleEndian);
+      }
+      // The restored counter may match one another agent saw for a different free table, continue from the current one
+      if (this._shared && !this.sealed) {
+        this._view.setUint32(CHECKSUM_OFFSET, changes);
+        this.freeTableChanged();
+      }
+      this._strategy.reset(this);
+      this.restoreStructures();
+      if (replaced) {
+        this.notifyBufferChanged();
+      }
+      for (const listener of [...this._rewindListeners]) {
+        listener(id);
+      }
+    });
   }
 
-  private coalesceFreeBlocks() {
-    const freeBlockCount = this._view.getUint32(4);
-    const freeBlocks = [];
+  /**
+   * Subscribes to `rewind`, for owners of structures that keep state outside the
+   * buffer, e.g. which structures exist. Returns the unsubscribe function.
+   */
+  public onRewind(listener: (id: number) => void): () => void {
+    this._rewindListeners.add(listener);
+    return () => this._rewindListeners.delete(listener);
+  }
 
-    // Extract free blocks into a temporary array for sorting and merging
-    for (let i = 0; i < freeBlockCount; i++) {
-      const offset = 12 + i * 8;
-      const blockOffset = this._view.getUint32(offset);
-      const blockSize = this._view.getUint32(offset + 4);
-      freeBlocks.push({ offset: blockOffset, size: blockSize });
+  public stats(): AllocatorStats {
+    const heapTop = this._view.getUint32(0);
+    let freeBytes = 0;
+    let largestFreeBlock = 0;
+    for (let i = 0; i < this.freeBlockCount; i++) {
+      const size = this.freeBlockSize(i);
+      freeBytes += size;
+      largestFreeBlock = Math.max(largestFreeBlock, size);
     }
 
-    // Sort free blocks by offset
-    freeBlocks.sort((a, b) => a.offset - b.offset);
+    return {
+      bytesInUse: heapTop - HEADER_SIZE - freeBytes,
+      freeBytes,
+      largestFreeBlock,
+      fragmentation: freeBytes === 0 ? 0 : 1 - largestFreeBlock / freeBytes,
+      freeBlockCount: this.freeBlockCount,
+      structureCount: this._view.getUint32(8),
+      growthCount: this._growthCount,
+      heapTop,
+      bufferSize: this._buffer.byteLength,
+    };
+  }
 
-    // Merge adjacent free blocks
-    const mergedBlocks = [];
-    for (let i = 0; i < freeBlocks.length; i++) {
-      if (mergedBlocks.length === 0 || mergedBlocks[mergedBlocks.length - 1].offset + mergedBlocks[mergedBlocks.length - 1].size < freeBlocks[i].offset) {
-        mergedBlocks.push(freeBlocks[i]);
-      } else {
-        mergedBlocks[mergedBlocks.length - 1].size += freeBlocks[i].size;
+  /** Throws on the first broken header or free table invariant */
+  public validate() {
+    const heapTop = this._view.getUint32(0);
+    if (heapTop < HEADER_SIZE || heapTop > this._buffer.byteLength) {
+      throw new Error(`Heap top ${heapTop} is outside the buffer`);
+    }
+    if (this.sealed && this._view.getUint32(CHECKSUM_OFFSET) !== this.checksum()) {
+      throw new Error('Header checksum does not match');
+    }
+
+    const tables: [string, number, number, number, number][] = [
+      ['Free', this.freeTableOffset, this.freeBlockCount, this._view.getUint32(16), FREE_ENTRY_SIZE],
+      ['Structure', this.structureTableOffset, this._view.getUint32(8), this._view.getUint32(24), STRUCTURE_ENTRY_SIZE],
+    ];
+    for (const [name, offset, count, capacity, entrySize] of tables) {
+      if (count > capacity) {
+        throw new Error(`${name} table holds ${count} entries but has room for ${capacity}`);
+      }
+      if (offset < HEADER_SIZE || offset + capacity * entrySize > heapTop) {
+        throw new Error(`${name} table at ${offset} is outside the heap`);
       }
     }
 
-    // Save merged blocks back to the buffer
-    for (let i = 0; i < mergedBlocks.length; i++) {
-      const offset = 12 + i * 8;
-      this._view.setUint32(offset, mergedBlocks[i].offset);
-      this._view.setUint32(offset + 4, mergedBlocks[i].size);
+    let previousEnd = HEADER_SIZE;
+    for (let i = 0; i < this.freeBlockCount; i++) {
+      const offset = this.freeBlockOffset(i);
+      const size = this.freeBlockSize(i);
+      if (size === 0 || offset + size > heapTop) {
+        throw new Error(`Free block ${offset}+${size} is outside the heap`);
+      }
+      // Adjacent free blocks are always merged
+      if (i > 0 ? offset <= previousEnd : offset < previousEnd) {
+        throw new Error(`Free block at ${offset} overlaps or touches the previous one`);
+      }
+      for (const [name, tableOffset, , capacity, entrySize] of tables) {
+        if (offset < tableOffset + capacity * entrySize && tableOffset < offset + size) {
+          throw new Error(`Free block at ${offset} overlaps the ${name.toLowerCase()} table`);
+        }
+      }
+      previousEnd = offset + size;
+    }
+
+    for (const entry of this.structureEntries()) {
+      if (entry.offset < HEADER_SIZE || entry.offset >= heapTop) {
+        throw new Error(`Structure ${entry.id} at ${entry.offset} is outside the heap`);
+      }
+    }
+  }
+
+  /** Live and free regions in offset order, from the end of the header up to the heap top */
+  public *walk(): IterableIterator<HeapRegion> {
+    const heapTop = this._view.getUint32(0);
+    let offset = HEADER_SIZE;
+    for (let i = 0; i < this.freeBlockCount; i++) {
+      const freeOffset = this.freeBlockOffset(i);
+      if (freeOffset > offset) {
+        yield { offset, size: freeOffset - offset, free: false };
+      }
+      const size = this.freeBlockSize(i);
+      yield { offset: freeOffset, size, free: true };
+      offset = freeOffset + size;
+    }
+    if (heapTop > offset) {
+      yield { offset, size: heapTop - offset, free: false };
+    }
+  }
+
+  public freeBlockOffset(index: number): number {
+    return this._view.getUint32(this.freeTableOffset + index * 8);
+  }
+
+  public freeBlockSize(index: number): number {
+    return this._view.getUint32(this.freeTableOffset + index * 8 + 4);
+  }
+
+  /** Binary search for the first free block at or after `offset` */
+  private findFreeBlock(offset: number): number {
+    let low = 0;
+    let high = this.freeBlockCount;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.freeBlockOffset(mid) < offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private insertFreeBlock(index: number, offset: number, size: number) {
+    const count = this.freeBlockCount;
+    const table = this.freeTableOffset;
+    new Uint8Array(this._buffer).copyWithin(table + (index + 1) * 8, table + index * 8, table + count * 8);
+    this._view.setUint32(table + index * 8, offset);
+    this._view.setUint32(table + index * 8 + 4, size);
+    this._view.setUint32(4, count + 1);
+    this._strategy.added(offset, size);
+    this.freeTableChanged();
+  }
+
+  private removeFreeBlock(index: number) {
+    const count = this.freeBlockCount;
+    const table = this.freeTableOffset;
+    this._strategy.removed(this.freeBlockOffset(index), this.freeBlockSize(index));
+    new Uint8Array(this._buffer).copyWithin(table + index * 8, table + (index + 1) * 8, table + count * 8);
+    this._view.setUint32(4, count - 1);
+    this.freeTableChanged();
+  }
+
+  /** Bump-allocates at the heap top, growing the buffer when needed */
+  private allocateTop(size: number, align = this._alignment): number {
+    // Padding below an unaligned heap top is never handed out
+    const top = this.alignUp(this._view.getUint32(0));
+    const offset = this.alignUp(top, align);
+    this.ensureBufferSize(offset + size);
+    this._view.setUint32(0, offset + size);
+    // Padding for a wider alignment goes back to the free table
+    if (offset > top) {
+      this.release(new MemoryBlockRef(top, offset - top));
+    }
+    return offset;
+  }
+
+  private alignUp(value: number, align = this._alignment): number {
+    return Math.ceil(value / align) * align;
+  }
+
+  private static checkAlign(align: number): number {
+    if (align < 1 || (align & (align - 1)) !== 0) {
+      throw new Error(`Alignment ${align} is not a power of two`);
+    }
+    if (align > MAX_ALIGNMENT) {
+      throw new Error(`Alignment ${align} is wider than ${MAX_ALIGNMENT}`);
+    }
+    return align;
+  }
+
+  /** Kept in the header so `compact` respects blocks allocated before a reload or by other agents */
+  private get widestAlignment(): number {
+    return Math.max(this._alignment, 2 ** (this._view.getUint8(ALIGNMENT_OFFSET) >> 4));
+  }
+
+  private widenAlignment(align: number) {
+    if (align > this.widestAlignment) {
+      this._view.setUint8(ALIGNMENT_OFFSET, (Math.log2(align) << 4) | Math.log2(this._alignment));
     }
+  }
+
+  /**
+   * Makes room for `extra` more entries in one of the header tables.
+   * The table doubles into a fresh block at the heap top and its old block is freed.
+   */
+  private ensureTableCapacity(countOffset: number, tableOffset: number, capacityOffset: number, entrySize: number) {
+    const count = this._view.getUint32(countOffset);
+    const capacity = this._view.getUint32(capacityOffset);
+    if (count < capacity) return;
+
+    // Doubling leaves the free table room for its predecessor's block as well
+    const newCapacity = capacity * 2;
+    const newTable = this.allocateTop(newCapacity * entrySize);
+    const oldTable = this._view.getUint32(tableOffset);
+    new Uint8Array(this._buffer, newTable, count * entrySize).set(new Uint8Array(this._buffer, oldTable, count * entrySize));
+    this._view.setUint32(tableOffset, newTable);
+    this._view.setUint32(capacityOffset, newCapacity);
 
-    // Update the free block count
-    this._view.setUint32(4, mergedBlocks.length);
+    this.release(new MemoryBlockRef(oldTable, capacity * entrySize));
+  }
+
+  private ensureBufferSize(requiredSize: number) {
+    if (requiredSize <= this._buffer.byteLength) return;
+    // Other agents keep using a shared buffer, it cannot be swapped for a bigger one
+    const maxBytes = this._shared ? this._buffer.byteLength : this._maxBytes;
+    if (requiredSize > maxBytes) {
+      throw new OutOfMemoryError(requiredSize, maxBytes);
+    }
+    const size = Math.max(this._growth(this._buffer.byteLength, requiredSize), requiredSize);
+    this.expandBuffer(Math.min(size, this._maxBytes));
   }
 
-  private expandBuffer() {
-    const newBufferSize = this._buffer.byteLength * 2;
+  private expandBuffer(newBufferSize: number) {
+    const oldBufferSize = this._buffer.byteLength;
     const newBuffer = new ArrayBuffer(newBufferSize);
-    const newView = new DataView(newBuffer);
 
     const oldUint8Array = new Uint8Array(this._buffer);
     const newUint8Array = new Uint8Array(newBuffer);
     newUint8Array.set(oldUint8Array);
 
     this._buffer = newBuffer;
-    this._view = newView;
+    this._view = createView(newBuffer, this._littleEndian);
+    this._growthCount++;
 
     this.restoreStructures();
+    this._onGrow?.(oldBufferSize, newBufferSize);
+    this.notifyBufferChanged();
   }
 
-  public registerStructure(structure: IResizableStruct | IFixedStruct): number {
-    const id = this._nextId++;
-    const offset = this._view.getUint32(0);
-    this._structures.set(id, { offset, struct: structure });
+  /**
+   * Subscribes to buffer replacements, after which every typed array or
+   * DataView built over the old `buffer` is stale. Returns the unsubscribe function.
+   */
+  public onBufferChanged(listener: BufferChangedListener): () => void {
+    this._bufferListeners.add(listener);
+    return () => this._bufferListeners.delete(listener);
+  }
 
-    const structuresCount = this._view.getUint32(8);
-    const structOffset = 12 + this.maxFreeBlocks * 8 + structuresCount * 8;
-    this._view.setUint32(structOffset, id);
-    this._view.setUint32(structOffset + 4, offset);
-    this._view.setUint32(8, structuresCount + 1);
+  private notifyBufferChanged() {
+    for (const listener of [...this._bufferListeners]) {
+      listener(this._buffer);
+    }
+  }
+
+  /**
+   * Adds a structure to the table in the header, `offset` is the start of its block.
+   * Structures registered with a type tag are recreated by `fromBuffer` through the `StructureRegistry`.
+   */
+  public registerStructure(
+    structure: IResizableStruct | IFixedStruct,
+    { offset, type = STRUCTURE_TYPE_UNKNOWN, param = 0 }: Pick<StructureEntry, 'offset'> & Partial<Pick<StructureEntry, 'type' | 'param'>>
+  ): number {
+    return this.locked(() => {
+      if (this._shared) {
+        // Other agents may have registered structures since the last sync
+        this.structureEntries().forEach((entry) => (this._nextId = Math.max(this._nextId, entry.id + 1)));
+      }
+      const id = this._nextId++;
+
+      this.ensureTableCapacity(8, 20, 24, STRUCTURE_ENTRY_SIZE);
+      const structuresCount = this._view.getUint32(8);
+      const structOffset = this.structureTableOffset + structuresCount * STRUCTURE_ENTRY_SIZE;
+      this._view.setUint32(structOffset, id);
+      this._view.setUint32(structOffset + 4, type);
+      this._view.setUint32(structOffset + 8, offset);
+      this._view.setUint32(structOffset + 12, param);
+      this._view.setUint32(8, structuresCount + 1);
+      this._structures.set(id, { offset, struct: structure });
+      this.unseal();
+
+      return id;
+    });
+  }
+
+  /** Records that a structure's block moved, so saved buffers always match the live layout */
+  public relocateStructure(id: number, offset: number) {
+    this.locked(() => {
+      const entry = this._structures.get(id);
+      const row = this.findStructureRow(id);
+      if (!entry || row === -1) {
+        throw new Error(`Structure with ID ${id} not found`);
+      }
+      entry.offset = offset;
+      this._view.setUint32(this.structureTableOffset + row * STRUCTURE_ENTRY_SIZE + 8, offset);
+      this.unseal();
+    });
+  }
+
+  public unregisterStructure(id: number) {
+    this.locked(() => {
+      const row = this.findStructureRow(id);
+      if (!this._structures.delete(id) || row === -1) {
+        throw new Error(`Structure with ID ${id} not found`);
+      }
 
-    return id;
+      // The last entry takes the removed one's row
+      const last = this._view.getUint32(8) - 1;
+      const table = this.structureTableOffset;
+      new Uint8Array(this._buffer).copyWithin(
+        table + row * STRUCTURE_ENTRY_SIZE,
+        table + last * STRUCTURE_ENTRY_SIZE,
+        table + (last + 1) * STRUCTURE_ENTRY_SIZE
+      );
+      this._view.setUint32(8, last);
+      this.unseal();
+    });
+  }
+
+  /**
+   * Binds a live instance to a structure `fromBuffer` loaded without a factory,
+   * e.g. an untyped one, so compaction and reloads restore it. Returns its offset.
+   */
+  public attachStructure(id: number, structure: IResizableStruct | IFixedStruct): number {
+    const entry = this._structures.get(id);
+    if (!entry) {
+      throw new Error(`Structure with ID ${id} not found`);
+    }
+    if (entry.struct) {
+      throw new Error(`Structure with ID ${id} is already attached`);
+    }
+    entry.struct = structure;
+    return entry.offset;
+  }
+
+  /** Whether the structure table has an entry for `id`, e.g. after a rewind or another agent unregistered it */
+  public hasStructure(id: number): boolean {
+    return this._structures.has(id);
   }
 
   public getStructureOffset(id: number): number {
@@ -164,25 +767,248 @@ export class Allocator {
     return entry.offset;
   }
 
-  static fromBuffer(buffer: ArrayBuffer): Allocator {
-    const allocator = new Allocator(buffer.byteLength);
-    allocator._buffer = buffer.slice(0);
-    allocator._view = new DataView(allocator._buffer);
+  /** Live instance of a structure, including the ones recreated by `fromBuffer` */
+  public getStructure<T extends IResizableStruct | IFixedStruct>(id: number): T {
+    const entry = this._structures.get(id);
+    if (!entry?.struct) {
+      throw new Error(`Structure with ID ${id} not found`);
+    }
+    return entry.struct as T;
+  }
+
+  public structureEntries(): StructureEntry[] {
+    const entries: StructureEntry[] = [];
+    const structuresCount = this._view.getUint32(8);
+    for (let i = 0; i < structuresCount; i++) {
+      const structOffset = this.structureTableOffset + i * STRUCTURE_ENTRY_SIZE;
+      entries.push({
+        id: this._view.getUint32(structOffset),
+        type: this._view.getUint32(structOffset + 4),
+        offset: this._view.getUint32(structOffset + 8),
+        param: this._view.getUint32(structOffset + 12),
+      });
+    }
+    return entries;
+  }
+
+  private findStructureRow(id: number): number {
+    const structuresCount = this._view.getUint32(8);
+    for (let i = 0; i < structuresCount; i++) {
+      if (this._view.getUint32(this.structureTableOffset + i * STRUCTURE_ENTRY_SIZE) === id) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * CRC-32 of the header up to the checksum field and of the used part of both tables.
+   * The lock byte changes outside of `seal`, it is checksummed as zero.
+   */
+  private checksum(): number {
+    const bytes = new Uint8Array(this._buffer);
+    const freeTable = this.freeTableOffset;
+    const structureTable = this.structureTableOffset;
+    let crc = crc32(bytes.subarray(0, LOCK_OFFSET));
+    crc = crc32(UNLOCKED, crc);
+    crc = crc32(bytes.subarray(LOCK_OFFSET + 1, CHECKSUM_OFFSET), crc);
+    crc = crc32(bytes.subarray(freeTable, freeTable + this.freeBlockCount * FREE_ENTRY_SIZE), crc);
+    return crc32(bytes.subarray(structureTable, structureTable + this._view.getUint32(8) * STRUCTURE_ENTRY_SIZE), crc);
+  }
+
+  /**
+   * Writes the checksum, call it before saving `buffer`. Mutations only flag the
+   * buffer as unsealed, so `fromBuffer` only checks the tables of buffers saved without it.
+   */
+  public seal() {
+    this.locked(() => {
+      this._view.setUint8(FLAGS_OFFSET, this._view.getUint8(FLAGS_OFFSET) & ~FORMAT_FLAG_UNSEALED);
+      this._view.setUint32(CHECKSUM_OFFSET, this.checksum());
+    });
+  }
+
+  /** Checksumming both tables on every mutation would make each one linear in their size */
+  private unseal() {
+    const flags = this._view.getUint8(FLAGS_OFFSET);
+    if ((flags & FORMAT_FLAG_UNSEALED) === 0) {
+      this._view.setUint8(FLAGS_OFFSET, flags | FORMAT_FLAG_UNSEALED);
+    }
+  }
+
+  /** Also invalidates the strategies of other agents sharing the buffer, see `locked` */
+  private freeTableChanged() {
+    this.unseal();
+    this._view.setUint32(CHECKSUM_OFFSET, (this._view.getUint32(CHECKSUM_OFFSET) + 1) >>> 0);
+  }
+
+  private get sealed(): boolean {
+    return (this._view.getUint8(FLAGS_OFFSET) & FORMAT_FLAG_UNSEALED) === 0;
+  }
+
+  /**
+   * Loads a saved buffer, rejecting it with a `BufferFormatError` when it is
+   * corrupt or incompatible. Older versions go through the registered `FormatMigrations`.
+   * A `Uint8Array` loads the bytes it views, e.g. the heap of a world snapshot.
+   */
+  static fromBuffer(buffer: ArrayBufferLike | Uint8Array, options: AllocatorOptions = {}): Allocator {
+    // Always a private, unshared copy
+    let migrated = (buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)).slice().buffer;
+    const version = Allocator.readFormatVersion(migrated);
+    for (let from = version; from < FORMAT_VERSION; from = Allocator.readFormatVersion(migrated)) {
+      const migration = FormatMigrations.get(from);
+      if (!migration) {
+        throw new UnsupportedVersionError(version);
+      }
+      migrated = migration(migrated);
+      if (Allocator.readFormatVersion(migrated) <= from) {
+        throw new BufferFormatError(`Migration from version ${from} did not upgrade the buffer`);
+      }
+    }
+
+    const allocator = Allocator.wrap(migrated, { ...options, shared: false });
+    // Migrated buffers carry the checksum of their old layout
+    if (version === FORMAT_VERSION) {
+      allocator.verifyChecksum();
+    }
+    new Uint8Array(migrated)[LOCK_OFFSET] = 0;
+    allocator.seal();
+    // The checksum only covers sealed buffers, unsealed and migrated ones still need their tables checked
+    allocator.validateFormat();
+    allocator._strategy.reset(allocator);
     allocator.restoreStructures();
     return allocator;
   }
 
+  /**
+   * Attaches to the SharedArrayBuffer of a shared allocator, e.g. in a worker.
+   * Nothing is copied, tagged structures are recreated over the same memory.
+   * Call `sync` before using them once other agents may have changed the heap.
+   */
+  static attach(buffer: SharedArrayBuffer, options: Omit<AllocatorOptions, 'shared'> = {}): Allocator {
+    const version = Allocator.readFormatVersion(buffer);
+    if (version !== FORMAT_VERSION) {
+      throw new UnsupportedVersionError(version);
+    }
+
+    const allocator = Allocator.wrap(buffer, { ...options, shared: true });
+    allocator.locked(() => {
+      allocator.verifyChecksum();
+      allocator.restoreStructures();
+    });
+    return allocator;
+  }
+
+  /** Allocator over an existing buffer, byte order and alignment come from its header and options may only confirm them */
+  private static wrap(buffer: ArrayBufferLike, options: AllocatorOptions): Allocator {
+    const bytes = new Uint8Array(buffer);
+    const littleEndian = (bytes[FLAGS_OFFSET] & FORMAT_FLAG_LITTLE_ENDIAN) !== 0;
+    const alignment = 2 ** (bytes[ALIGNMENT_OFFSET] & 0x0f);
+    if (options.littleEndian !== undefined && options.littleEndian !== littleEndian) {
+      throw new EndiannessMismatchError();
+    }
+    if (options.alignment !== undefined && options.alignment !== alignment) {
+      throw new BufferFormatError(`Buffer blocks are aligned to ${alignment} bytes, not ${options.alignment}`);
+    }
+
+    // The buffer built by the constructor is dropped right away
+    const allocator = new Allocator(buffer.byteLength, { ...options, littleEndian, alignment, shared: false });
+    allocator._shared = options.shared ?? false;
+    allocator._buffer = buffer;
+    allocator._view = createView(buffer, littleEndian);
+    return allocator;
+  }
+
+  /** `validate` for loading, a buffer failing it is corrupt rather than misused */
+  private validateFormat() {
+    try {
+      this.validate();
+    } catch (error) {
+      throw new BufferFormatError(`Corrupt allocator buffer: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private verifyChecksum() {
+    if (!this.sealed) return;
+    const expected = this._view.getUint32(CHECKSUM_OFFSET);
+    const actual = this.checksum();
+    if (expected !== actual) {
+      throw new ChecksumMismatchError(expected, actual);
+    }
+  }
+
+  /**
+   * Picks up changes other agents made to the structure table of a shared
+   * buffer, restoring every structure at its current offset.
+   */
+  public sync() {
+    this.locked(() => this.restoreStructures());
+  }
+
+  /**
+   * Runs `fn` holding the header lock when the buffer is shared. Calls nested
+   * inside it, e.g. `reallocate` allocating, already hold the lock. The strategy
+   * is only rebuilt when the change counter moved since this agent last held it.
+   */
+  private locked<T>(fn: () => T): T {
+    if (!this._shared || this._lockDepth > 0) {
+      return fn();
+    }
+
+    const lock = new Uint8Array(this._buffer, LOCK_OFFSET, 1);
+    while (Atomics.compareExchange(lock, 0, 0, 1) !== 0) {
+      // Critical sections are short, spin until the holder releases it
+    }
+    this._lockDepth++;
+    try {
+      // Other agents changed the free table since the last call, or sealed the buffer
+      if (this._view.getUint32(CHECKSUM_OFFSET) !== this._seenChanges) {
+        this._strategy.reset(this);
+      }
+      return fn();
+    } finally {
+      this._seenChanges = this._view.getUint32(CHECKSUM_OFFSET);
+      this._lockDepth--;
+      Atomics.store(lock, 0, 0);
+    }
+  }
+
+  private static readFormatVersion(buffer: ArrayBufferLike): number {
+    if (buffer.byteLength < HEADER_SIZE) {
+      throw new BufferFormatError(`Buffer of ${buffer.byteLength} bytes is too small for an allocator header`);
+    }
+    const bytes = new Uint8Array(buffer);
+    if (FORMAT_MAGIC.some((byte, i) => bytes[MAGIC_OFFSET + i] !== byte)) {
+      // Only the legacy layout has no magic bytes
+      if (isLegacyBuffer(buffer)) return LEGACY_FORMAT_VERSION;
+      throw new InvalidMagicError();
+    }
+    if (bytes[VERSION_OFFSET] > FORMAT_VERSION) {
+      throw new UnsupportedVersionError(bytes[VERSION_OFFSET]);
+    }
+    return bytes[VERSION_OFFSET];
+  }
+
+  /**
+   * Points every known structure at its saved offset and forgets removed ones. Structures this allocator
+   * has not seen yet are recreated from their type tag, untyped ones only keep their offset.
+   */
   private restoreStructures() {
-    const structuresCount = this._view.getUint32(8);
-    for (let i = 0; i < structuresCount; i++) {
-      const structOffset = 12 + this.maxFreeBlocks * 8 + i * 8;
-      const id = this._view.getUint32(structOffset);
-      const offset = this._view.getUint32(structOffset + 4);
-      const struct = this._structures.get(id)!.struct;
+    const entries = this.structureEntries();
+    // Structures another agent unregistered
+    const ids = new Set(entries.map((entry) => entry.id));
+    for (const id of this._structures.keys()) {
+      if (!ids.has(id)) this._structures.delete(id);
+    }
 
-      if (!struct) throw new Error(`Structure with ID ${id} not found`);
+    for (const entry of entries) {
+      this._nextId = Math.max(this._nextId, entry.id + 1);
+      const known = this._structures.get(entry.id);
+      if (known?.struct) {
+        known.offset = entry.offset;
+        known.struct.restore(entry.offset);
+        continue;
+      }
 
-      struct.restore(offset);
+      const factory = StructureRegistry.get(entry.type);
+      this._structures.set(entry.id, { offset: entry.offset, struct: factory?.(this, entry) });
     }
   }
 }
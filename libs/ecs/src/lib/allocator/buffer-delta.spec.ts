@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Allocator } from './allocator';
+import { DeltaBaseMismatchError, applyDelta, diffBuffers } from './buffer-delta';
+import { BufferFormatError } from './buffer-format';
+import { ResizableArray } from './structures/resazible-array/resizable-array';
+
+const copy = (allocator: Allocator) => new Uint8Array(allocator.buffer).slice();
+
+describe('buffer delta', () => {
+  it('should bring the base up to date', () => {
+    const allocator = new Allocator(1024);
+    const array = new ResizableArray(allocator, 16, 'u32');
+    const base = copy(allocator);
+    for (let i = 0; i < 8; i++) array.push(i * 1000);
+    const target = copy(allocator);
+
+    const patched = applyDelta(base, diffBuffers(base, target));
+
+    expect(new Uint8Array(patched)).toEqual(target);
+    const restored = Allocator.fromBuffer(patched).getStructure<ResizableArray>(array.__ID);
+    expect(restored.get(7)).toBe(7000);
+  });
+
+  it('should be much smaller than the buffer for small changes', () => {
+    const base = new Uint8Array(4096);
+    const target = base.slice();
+    target.set([1, 2, 3], 100);
+    target.set([4], 2000);
+
+    const delta = diffBuffers(base, target);
+
+    expect(delta.length).toBeLessThan(40);
+    expect(new Uint8Array(applyDelta(base, delta))).toEqual(target);
+  });
+
+  it('should run-length encode repeated bytes', () => {
+    const base = new Uint8Array(4096);
+    const target = base.slice().fill(0xdd, 64, 3064);
+    target[1000] = 1;
+
+    const delta = diffBuffers(base, target);
+
+    expect(delta.length).toBeLessThan(40);
+    expect(new Uint8Array(applyDelta(base, delta))).toEqual(target);
+  });
+
+  it('should handle a buffer that grew between the snapshots', () => {
+    const allocator = new Allocator(512);
+    const array = new ResizableArray(allocator, 4, 'f64');
+    const base = copy(allocator);
+    for (let i = 0; i < 100; i++) array.push(i / 2);
+    const target = copy(allocator);
+    expect(target.length).toBeGreaterThan(base.length);
+
+    const patched = applyDelta(base, diffBuffers(base, target));
+
+    expect(new Uint8Array(patched)).toEqual(target);
+    expect(Allocator.fromBuffer(patched).getStructure<ResizableArray<'f64'>>(array.__ID).get(99)).toBe(49.5);
+  });
+
+  it('should handle a buffer that shrank between the snapshots', () => {
+    const base = new Uint8Array(256).fill(7);
+    const target = base.slice(0, 100);
+    target[50] = 8;
+
+    expect(new Uint8Array(applyDelta(base, diffBuffers(base, target)))).toEqual(target);
+  });
+
+  it('should leave the base untouched', () => {
+    const base = new Uint8Array(64);
+    const target = base.slice().fill(1);
+
+    applyDelta(base.buffer, diffBuffers(base.buffer, target.buffer));
+
+    expect(base.every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('should reject other bases and malformed deltas', () => {
+    const base = new Uint8Array(64);
+    const target = base.slice().fill(1, 10, 20);
+    const delta = diffBuffers(base, target);
+    const other = base.slice();
+    other[0] = 1;
+
+    expect(() => applyDelta(other, delta)).toThrow(DeltaBaseMismatchError);
+    expect(() => applyDelta(base.subarray(1), delta)).toThrow('Delta was made against a different base buffer');
+    expect(() => applyDelta(base, delta.subarray(0, delta.length - 2))).toThrow('Delta is truncated');
+    expect(() => applyDelta(base, target)).toThrow(BufferFormatError);
+  });
+});
@@ -0,0 +1,218 @@
+import { BufferFormatError, crc32 } from './buffer-format';
+
+/** 'ECSD' */
+export const DELTA_MAGIC = [0x45, 0x43, 0x53, 0x44];
+
+export const DELTA_VERSION = 1;
+
+// Delta header: magic, version (u8) and 3 reserved bytes, base length, target length, base checksum
+const DELTA_HEADER_SIZE = 20;
+
+/** Unchanged gaps shorter than this are sent as part of the surrounding changes, a new range costs about as much */
+const MIN_GAP = 4;
+
+/** Repeated bytes shorter than this stay in a literal */
+const MIN_RUN = 4;
+
+const OP_LITERAL = 0;
+const OP_RUN = 1;
+
+export type DeltaSource = ArrayBufferLike | Uint8Array;
+
+export class DeltaBaseMismatchError extends BufferFormatError {
+  constructor() {
+    super('Delta was made against a different base buffer');
+  }
+}
+
+function toBytes(source: DeltaSource): Uint8Array {
+  return source instanceof Uint8Array ? source : new Uint8Array(source);
+}
+
+class DeltaWriter {
+  private _bytes = new Uint8Array(256);
+  private _length = 0;
+
+  public byte(value: number) {
+    this.reserve(1);
+    this._bytes[this._length++] = value;
+  }
+
+  /** Unsigned LEB128 */
+  public varint(value: number) {
+    while (value >= 0x80) {
+      this.byte((value & 0x7f) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  public bytes(source: Uint8Array) {
+    this.reserve(source.length);
+    this._bytes.set(source, this._length);
+    this._length += source.length;
+  }
+
+  public result(): Uint8Array {
+    return this._bytes.slice(0, this._length);
+  }
+
+  private reserve(size: number) {
+    if (this._length + size <= this._bytes.length) return;
+    let capacity = this._bytes.length * 2;
+    while (capacity < this._length + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this._bytes.subarray(0, this._length));
+    this._bytes = grown;
+  }
+}
+
+class DeltaReader {
+  private _position: number;
+
+  public get done() {
+    return this._position >= this._bytes.length;
+  }
+
+  constructor(
+    private readonly _bytes: Uint8Array,
+    start: number
+  ) {
+    this._position = start;
+  }
+
+  public byte(): number {
+    if (this.done) {
+      throw new BufferFormatError('Delta is truncated');
+    }
+    return this._bytes[this._position++];
+  }
+
+  public varint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  public bytes(length: number): Uint8Array {
+    if (this._position + length > this._bytes.length) {
+      throw new BufferFormatError('Delta is truncated');
+    }
+    const bytes = this._bytes.subarray(this._position, this._position + length);
+    this._position += length;
+    return bytes;
+  }
+}
+
+/**
+ * Binary delta turning `base` into `target`, e.g. two copies of `Allocator.buffer`
+ * taken a tick apart. Changed ranges are stored as literals or runs of one byte.
+ * Buffers may differ in size, bytes past the end of `base` compare against zero
+ * the way `expandBuffer` fills them.
+ */
+export function diffBuffers(base: DeltaSource, target: DeltaSource): Uint8Array {
+  const from = toBytes(base);
+  const to = toBytes(target);
+  const writer = new DeltaWriter();
+  const header = new DataView(new ArrayBuffer(DELTA_HEADER_SIZE));
+  DELTA_MAGIC.forEach((byte, i) => header.setUint8(i, byte));
+  header.setUint8(4, DELTA_VERSION);
+  header.setUint32(8, from.length);
+  header.setUint32(12, to.length);
+  header.setUint32(16, crc32(from));
+  writer.bytes(new Uint8Array(header.buffer));
+
+  const differs = (i: number) => to[i] !== (i < from.length ? from[i] : 0);
+  let position = 0;
+  let i = 0;
+  while (i < to.length) {
+    if (!differs(i)) {
+      i++;
+      continue;
+    }
+
+    // Extend the range over changes separated by short unchanged gaps
+    const start = i;
+    let end = i + 1;
+    for (let j = end; j < to.length && j < end + MIN_GAP; j++) {
+      if (differs(j)) end = j + 1;
+    }
+
+    writer.varint(start - position);
+    writeRange(writer, to.subarray(start, end));
+    position = i = end;
+  }
+  return writer.result();
+}
+
+/** Splits a changed range into literals and runs, each op is `length << 1 | kind` followed by its bytes */
+function writeRange(writer: DeltaWriter, range: Uint8Array) {
+  let literalStart = 0;
+  let i = 0;
+  while (i < range.length) {
+    let run = 1;
+    while (i + run < range.length && range[i + run] === range[i]) run++;
+    if (run < MIN_RUN) {
+      i += run;
+      continue;
+    }
+
+    if (i > literalStart) {
+      writer.varint((i - literalStart) * 2 + OP_LITERAL);
+      writer.bytes(range.subarray(literalStart, i));
+    }
+    writer.varint(run * 2 + OP_RUN);
+    writer.byte(range[i]);
+    i += run;
+    literalStart = i;
+  }
+  if (range.length > literalStart) {
+    writer.varint((range.length - literalStart) * 2 + OP_LITERAL);
+    writer.bytes(range.subarray(literalStart));
+  }
+  // A zero length literal ends the range
+  writer.varint(OP_LITERAL);
+}
+
+/** Applies a `diffBuffers` delta to a copy of `base`, `base` itself is left untouched */
+export function applyDelta(base: DeltaSource, delta: Uint8Array): ArrayBuffer {
+  if (delta.length < DELTA_HEADER_SIZE || DELTA_MAGIC.some((byte, i) => delta[i] !== byte)) {
+    throw new BufferFormatError('Bytes are not a buffer delta');
+  }
+  const header = new DataView(delta.buffer, delta.byteOffset, DELTA_HEADER_SIZE);
+  const version = header.getUint8(4);
+  if (version !== DELTA_VERSION) {
+    throw new BufferFormatError(`Unsupported buffer delta version ${version}, expected ${DELTA_VERSION}`);
+  }
+  const from = toBytes(base);
+  if (from.length !== header.getUint32(8) || crc32(from) !== header.getUint32(16)) {
+    throw new DeltaBaseMismatchError();
+  }
+
+  const result = new Uint8Array(header.getUint32(12));
+  result.set(from.subarray(0, Math.min(from.length, result.length)));
+  const reader = new DeltaReader(delta, DELTA_HEADER_SIZE);
+  let position = 0;
+  while (!reader.done) {
+    position += reader.varint();
+    for (let op = reader.varint(); op !== OP_LITERAL; op = reader.varint()) {
+      const length = Math.floor(op / 2);
+      if (position + length > result.length) {
+        throw new BufferFormatError('Delta writes past the end of the target buffer');
+      }
+      if (op % 2 === OP_RUN) {
+        result.fill(reader.byte(), position, position + length);
+      } else {
+        result.set(reader.bytes(length), position);
+      }
+      position += length;
+    }
+  }
+  return result.buffer;
+}
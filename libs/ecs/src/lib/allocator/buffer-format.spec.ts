@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { FORMAT_VERSION, FormatMigrations, crc32 } from './buffer-format';
+
+describe('crc32', () => {
+  it('should match the IEEE check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should continue over several ranges', () => {
+    const bytes = new TextEncoder().encode('123456789');
+    expect(crc32(bytes.subarray(4), crc32(bytes.subarray(0, 4)))).toBe(crc32(bytes));
+  });
+});
+
+describe('FormatMigrations', () => {
+  it('should only accept migrations from older versions', () => {
+    expect(() => FormatMigrations.register(FORMAT_VERSION, (buffer) => buffer)).toThrow(
+      `Cannot migrate from version ${FORMAT_VERSION}, current version is ${FORMAT_VERSION}`
+    );
+  });
+
+  it('should forget unregistered migrations', () => {
+    const migration = (buffer: ArrayBuffer) => buffer;
+    FormatMigrations.register(0, migration);
+    expect(FormatMigrations.get(0)).toBe(migration);
+
+    FormatMigrations.unregister(0);
+    expect(FormatMigrations.get(0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+/** 'ECSA', written byte by byte so it reads the same in either byte order */
+export const FORMAT_MAGIC = [0x45, 0x43, 0x53, 0x41];
+
+/** Version 1 was the unversioned layout with a fixed free block table, see legacy-format.ts */
+export const FORMAT_VERSION = 2;
+
+/** Bit of the header flags byte set when the buffer is little-endian */
+export const FORMAT_FLAG_LITTLE_ENDIAN = 1;
+
+/** Bit of the header flags byte set once the buffer changed after its checksum was written */
+export const FORMAT_FLAG_UNSEALED = 2;
+
+export class BufferFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidMagicError extends BufferFormatError {
+  constructor() {
+    super('Buffer is not an allocator buffer');
+  }
+}
+
+export class UnsupportedVersionError extends BufferFormatError {
+  constructor(public readonly version: number) {
+    super(`Unsupported allocator buffer version ${version}, expected ${FORMAT_VERSION}`);
+  }
+}
+
+export class EndiannessMismatchError extends BufferFormatError {
+  constructor() {
+    super('Allocator buffer byte order does not match the requested one');
+  }
+}
+
+export class ChecksumMismatchError extends BufferFormatError {
+  constructor(
+    public readonly expected: number,
+    public readonly actual: number
+  ) {
+    super(`Allocator buffer checksum mismatch: expected ${expected}, got ${actual}`);
+  }
+}
+
+/** Upgrades a buffer of one format version to the next one */
+export type FormatMigration = (buffer: ArrayBuffer) => ArrayBuffer;
+
+/**
+ * Migrations keyed by the version they upgrade from. `Allocator.fromBuffer`
+ * chains them until the buffer reaches `FORMAT_VERSION`.
+ */
+export class FormatMigrations {
+  private static readonly _migrations = new Map<number, FormatMigration>();
+
+  static register(fromVersion: number, migration: FormatMigration) {
+    if (fromVersion >= FORMAT_VERSION) {
+      throw new Error(`Cannot migrate from version ${fromVersion}, current version is ${FORMAT_VERSION}`);
+    }
+    FormatMigrations._migrations.set(fromVersion, migration);
+  }
+
+  static unregister(fromVersion: number) {
+    FormatMigrations._migrations.delete(fromVersion);
+  }
+
+  static get(fromVersion: number): FormatMigration | undefined {
+    return FormatMigrations._migrations.get(fromVersion);
+  }
+}
+
+let crcTable: Uint32Array | undefined;
+
+/** CRC-32 (IEEE), pass the previous result to continue over several ranges */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[i] = c >>> 0;
+    }
+  }
+
+  let crc = ~previous;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CheckpointRing } from './checkpoint-ring';
+
+describe('CheckpointRing', () => {
+  it('should restore every earlier checkpoint', () => {
+    const ring = new CheckpointRing(4, 16);
+    const heap = new Uint8Array(64);
+    const states: Uint8Array[] = [];
+    const ids: number[] = [];
+    for (let frame = 0; frame < 4; frame++) {
+      heap[frame * 10] = frame + 1;
+      states.push(heap.slice());
+      ids.push(ring.capture(heap));
+    }
+
+    for (const frame of [2, 0]) {
+      expect(ring.restore(ids[frame], heap)).toBe(heap);
+      expect(heap).toEqual(states[frame]);
+    }
+    expect(ring.ids).toEqual([ids[0]]);
+  });
+
+  it('should restore heaps of another size', () => {
+    const ring = new CheckpointRing(4, 16);
+    const small = new Uint8Array(40).fill(1);
+    const first = ring.capture(small);
+    const large = new Uint8Array(100);
+    large.set(small);
+    large[90] = 9;
+    const second = ring.capture(large);
+    const shrunk = large.slice(0, 20);
+    ring.capture(shrunk);
+
+    expect(ring.restore(second, shrunk)).toEqual(large);
+    expect(ring.restore(first, large)).toEqual(small);
+  });
+
+  it('should only keep the pages that changed', () => {
+    const ring = new CheckpointRing(2, 16);
+    const heap = new Uint8Array(1024);
+    const first = ring.capture(heap);
+    heap[500] = 1;
+    ring.capture(heap);
+
+    heap.fill(3);
+    ring.restore(first, heap);
+
+    expect(heap.every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('should notice changes in the bytes after the last whole word', () => {
+    const ring = new CheckpointRing(2, 16);
+    const heap = new Uint8Array(new ArrayBuffer(103));
+    const first = ring.capture(heap);
+    heap[101] = 7;
+    heap[3] = 1;
+    ring.capture(heap);
+
+    ring.restore(first, heap);
+
+    expect(heap.every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('should reject a capacity below one or unaligned pages', () => {
+    expect(() => new CheckpointRing(0)).toThrow('Checkpoint capacity 0 must be at least 1');
+    expect(() => new CheckpointRing(1, 10)).toThrow('Checkpoint page size 10 must be a multiple of 4');
+  });
+});
@@ -0,0 +1,127 @@
+/** Granularity of the change tracking between checkpoints */
+export const CHECKPOINT_PAGE_SIZE = 256;
+
+interface Checkpoint {
+  readonly id: number;
+  readonly size: number;
+  /** Pages of this checkpoint that differ in the next one, empty for the latest */
+  readonly undo: Map<number, Uint8Array>;
+}
+
+/**
+ * Last `capacity` states of a heap. Only the latest one is kept whole, every
+ * older one keeps just the pages that changed after it.
+ * This is scan-based diffing, not dirty-page tracking: writes go straight to the
+ * buffer and cannot be tracked, so each capture compares the whole heap with the
+ * latest copy, a 32-bit word at a time. A capture takes time linear in the heap
+ * size and the ring holds one full copy of the heap on top of the changed pages.
+ */
+export class CheckpointRing {
+  private readonly _checkpoints: Checkpoint[] = [];
+  private _latest = new Uint8Array(0);
+  private _nextId = 0;
+
+  /** Checkpoints that can still be restored, oldest first */
+  public get ids(): number[] {
+    return this._checkpoints.map((checkpoint) => checkpoint.id);
+  }
+
+  constructor(
+    private readonly _capacity: number,
+    private readonly _pageSize = CHECKPOINT_PAGE_SIZE
+  ) {
+    if (_capacity < 1) {
+      throw new Error(`Checkpoint capacity ${_capacity} must be at least 1`);
+    }
+    if (_pageSize < 4 || _pageSize % 4 !== 0) {
+      throw new Error(`Checkpoint page size ${_pageSize} must be a multiple of 4`);
+    }
+  }
+
+  public capture(heap: Uint8Array): number {
+    const previous = this._checkpoints[this._checkpoints.length - 1];
+    if (previous) {
+      const latest = this._latest;
+      const size = Math.max(latest.length, heap.length);
+      for (const page of this.changedPages(latest, heap)) {
+        const start = page * this._pageSize;
+        const end = Math.min(start + this._pageSize, size);
+        // Pages past the end of the previous heap did not exist there, the resize on restore drops them
+        if (start < latest.length) previous.undo.set(page, latest.slice(start, end));
+        if (latest.length === heap.length) latest.set(heap.subarray(start, end), start);
+      }
+      if (latest.length !== heap.length) this._latest = heap.slice();
+    } else {
+      this._latest = heap.slice();
+    }
+
+    const id = this._nextId++;
+    this._checkpoints.push({ id, size: heap.length, undo: new Map() });
+    if (this._checkpoints.length > this._capacity) {
+      this._checkpoints.shift();
+    }
+    return id;
+  }
+
+  /**
+   * Brings `heap` back to checkpoint `id` and forgets the checkpoints after it.
+   * Returns `heap` when the size did not change, otherwise a new array of the old size.
+   */
+  public restore(id: number, heap: Uint8Array): Uint8Array {
+    const index = this._checkpoints.findIndex((checkpoint) => checkpoint.id === id);
+    if (index === -1) {
+      throw new Error(`Checkpoint ${id} is not available`);
+    }
+
+    for (let i = this._checkpoints.length - 2; i >= index; i--) {
+      const { size, undo } = this._checkpoints[i];
+      if (size !== this._latest.length) {
+        const resized = new Uint8Array(size);
+        resized.set(this._latest.subarray(0, size));
+        this._latest = resized;
+      }
+      for (const [page, bytes] of undo) {
+        this._latest.set(bytes, page * this._pageSize);
+      }
+    }
+    this._checkpoints.length = index + 1;
+    this._checkpoints[index].undo.clear();
+
+    if (heap.length !== this._latest.length) {
+      return this._latest.slice();
+    }
+    heap.set(this._latest);
+    return heap;
+  }
+
+  /** Indices of the pages that differ, in ascending order */
+  private changedPages(a: Uint8Array, b: Uint8Array): number[] {
+    const pages: number[] = [];
+    const aWords = wordsOf(a);
+    const bWords = wordsOf(b);
+    const words = Math.min(aWords.length, bWords.length);
+    const pageWords = this._pageSize >> 2;
+    for (let i = 0; i < words; i++) {
+      if (aWords[i] === bWords[i]) continue;
+      const page = Math.floor(i / pageWords);
+      pages.push(page);
+      // The rest of the page is copied anyway
+      i = (page + 1) * pageWords - 1;
+    }
+
+    // Bytes past the end of the smaller heap compare as zero, like a grown buffer
+    const size = Math.max(a.length, b.length);
+    for (let i = words * 4; i < size; i++) {
+      if ((i < a.length ? a[i] : 0) === (i < b.length ? b[i] : 0)) continue;
+      const page = Math.floor(i / this._pageSize);
+      if (pages[pages.length - 1] !== page) pages.push(page);
+      i = (page + 1) * this._pageSize - 1;
+    }
+    return pages;
+  }
+}
+
+/** Heaps are whole buffers or copies of them, so their views start word aligned */
+function wordsOf(bytes: Uint8Array): Uint32Array {
+  return new Uint32Array(bytes.buffer, bytes.byteOffset, bytes.length >> 2);
+}
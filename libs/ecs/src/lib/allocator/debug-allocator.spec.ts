@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryBlockRef } from './allocator';
+import { DebugAllocator } from './debug-allocator';
+import { ResizableArray } from './structures/resazible-array/resizable-array';
+
+describe('DebugAllocator', () => {
+  it('should surround blocks with guard bytes and keep their alignment', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(12, 16);
+
+    expect(block.offset % 16).toBe(0);
+    expect(allocator.view.getUint8(block.offset - 1)).toBe(0xfd);
+    expect(allocator.view.getUint8(block.offset + 12)).toBe(0xfd);
+    expect(allocator.liveBlockCount).toBe(1);
+  });
+
+  it('should throw on double free', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(16);
+    allocator.free(block);
+
+    expect(() => allocator.free(block)).toThrow(`Block at ${block.offset} is already free`);
+  });
+
+  it('should throw on frees of ranges it did not hand out', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(16);
+
+    expect(() => allocator.free(new MemoryBlockRef(block.offset + 4, 8))).toThrow(
+      `Block at ${block.offset + 4} overlaps the live block at ${block.offset}`
+    );
+    expect(() => allocator.free(new MemoryBlockRef(5000, 8))).toThrow('Block at 5000 is outside the heap');
+    expect(() => allocator.free(new MemoryBlockRef(block.offset, 8))).toThrow(`Block at ${block.offset} has 16 bytes, not 8`);
+    expect(allocator.liveBlockCount).toBe(1);
+  });
+
+  it('should poison freed memory', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(8);
+    allocator.view.setUint32(block.offset, 42);
+    allocator.allocate(8);
+    allocator.free(block);
+
+    expect(allocator.view.getUint32(block.offset)).toBe(0xdddddddd);
+  });
+
+  it('should detect writes past the end of a block', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(8);
+    allocator.view.setUint32(block.offset + 8, 1);
+
+    expect(() => allocator.validate()).toThrow(`Guard bytes of block at ${block.offset} were overwritten at ${block.offset + 8}`);
+    expect(() => allocator.free(block)).toThrow('Guard bytes');
+  });
+
+  it('should validate header and free table invariants', () => {
+    const allocator = new DebugAllocator(1024);
+    const block = allocator.allocate(8);
+    allocator.allocate(8);
+    allocator.free(block);
+    expect(() => allocator.validate()).not.toThrow();
+
+    allocator.view.setUint32(0, 99999);
+    expect(() => allocator.validate()).toThrow('Heap top 99999 is outside the buffer');
+  });
+
+  it('should keep tracking blocks through reallocation and compaction', () => {
+    const allocator = new DebugAllocator(1024);
+    const hole = allocator.allocate(32);
+    const array = new ResizableArray(allocator, 2);
+    for (let i = 0; i < 10; i++) {
+      array.push(i);
+    }
+    allocator.free(hole);
+    allocator.compact();
+
+    expect(() => allocator.validate()).not.toThrow();
+    expect([...array]).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    array.destroy();
+    expect(allocator.liveBlockCount).toBe(0);
+  });
+
+  it('should track the blocks live at a rewound checkpoint', () => {
+    const allocator = new DebugAllocator(1024);
+    const kept = allocator.allocate(16);
+    const frame = allocator.checkpoint();
+    allocator.free(kept);
+    const later = allocator.allocate(24);
+
+    allocator.rewind(frame);
+
+    expect(allocator.liveBlockCount).toBe(1);
+    expect(() => allocator.free(later)).toThrow();
+    allocator.free(kept);
+    allocator.validate();
+  });
+});
@@ -0,0 +1,144 @@
+import { Allocator, CompactOptions, MemoryBlockRef, Relocation } from './allocator';
+
+const GUARD_SIZE = 8;
+const GUARD_BYTE = 0xfd;
+/** Freed blocks are filled with it so reads through a stale `MemoryBlockRef` stand out */
+const POISON_BYTE = 0xdd;
+
+interface LiveBlock {
+  /** Whole allocation, guards included */
+  readonly raw: MemoryBlockRef;
+  readonly size: number;
+}
+
+/**
+ * Allocator for development builds. Every block is surrounded by guard bytes
+ * and tracked until freed, so double frees, frees of made-up ranges and
+ * writes past a block's end throw instead of corrupting the free table.
+ * Only blocks allocated by this instance can be freed, tracking does not survive `fromBuffer`.
+ */
+export class DebugAllocator extends Allocator {
+  private readonly _live = new Map<number, LiveBlock>();
+  private readonly _liveAtCheckpoint = new Map<number, Map<number, LiveBlock>>();
+
+  public get liveBlockCount(): number {
+    return this._live.size;
+  }
+
+  constructor(...args: ConstructorParameters<typeof Allocator>) {
+    super(...args);
+    this.onRewind((id) => this.rewound(id));
+  }
+
+  public override allocate(size: number, align = this.alignment): MemoryBlockRef {
+    // The leading guard is padded so the returned offset keeps the alignment
+    const alignment = Math.max(align, this.alignment);
+    const front = Math.ceil(GUARD_SIZE / alignment) * alignment;
+    const raw = super.allocate(front + size + GUARD_SIZE, align);
+    const offset = raw.offset + front;
+    const bytes = new Uint8Array(this.buffer);
+    bytes.fill(GUARD_BYTE, raw.offset, offset);
+    bytes.fill(GUARD_BYTE, offset + size, raw.offset + raw.size);
+
+    this._live.set(offset, { raw, size });
+    return new MemoryBlockRef(offset, size);
+  }
+
+  /** Always moves the block, so stale references to the old one are caught */
+  public override reallocate(block: MemoryBlockRef, newSize: number, align = this.alignment): MemoryBlockRef {
+    this.checkBlock(block);
+    const moved = this.allocate(newSize, align);
+    new Uint8Array(this.buffer).copyWithin(moved.offset, block.offset, block.offset + Math.min(block.size, newSize));
+    this.free(block);
+    return moved;
+  }
+
+  public override free(block: MemoryBlockRef) {
+    const live = this.checkBlock(block);
+    this._live.delete(block.offset);
+    new Uint8Array(this.buffer).fill(POISON_BYTE, live.raw.offset, live.raw.offset + live.raw.size);
+    super.free(live.raw);
+  }
+
+  public override compact(options: CompactOptions = {}): Relocation {
+    const relocate = super.compact(options);
+    const live = [...this._live.entries()];
+    this._live.clear();
+    for (const [offset, { raw, size }] of live) {
+      this._live.set(relocate(offset), { raw: new MemoryBlockRef(relocate(raw.offset), raw.size), size });
+    }
+    return relocate;
+  }
+
+  public override checkpoint(): number {
+    const id = super.checkpoint();
+    this._liveAtCheckpoint.set(id, new Map(this._live));
+    for (const known of this._liveAtCheckpoint.keys()) {
+      if (!this.checkpoints.includes(known)) this._liveAtCheckpoint.delete(known);
+    }
+    return id;
+  }
+
+  /** Tracks the blocks that were live at the checkpoint again, before other listeners allocate */
+  private rewound(id: number) {
+    this._live.clear();
+    this._liveAtCheckpoint.get(id)?.forEach((live, offset) => this._live.set(offset, live));
+    for (const known of this._liveAtCheckpoint.keys()) {
+      if (known > id) this._liveAtCheckpoint.delete(known);
+    }
+  }
+
+  /** Also checks the guard bytes of every live block */
+  public override validate() {
+    super.validate();
+    for (const [offset, live] of this._live) {
+      this.checkGuards(offset, live);
+    }
+  }
+
+  private checkBlock(block: MemoryBlockRef): LiveBlock {
+    const live = this._live.get(block.offset);
+    if (!live) {
+      throw new Error(this.describeUnknownBlock(block));
+    }
+    if (live.size !== block.size) {
+      throw new Error(`Block at ${block.offset} has ${live.size} bytes, not ${block.size}`);
+    }
+    this.checkGuards(block.offset, live);
+    return live;
+  }
+
+  private checkGuards(offset: number, live: LiveBlock) {
+    const bytes = new Uint8Array(this.buffer);
+    const guards = [
+      [live.raw.offset, offset],
+      [offset + live.size, live.raw.offset + live.raw.size],
+    ];
+    for (const [start, end] of guards) {
+      for (let i = start; i < end; i++) {
+        if (bytes[i] !== GUARD_BYTE) {
+          throw new Error(`Guard bytes of block at ${offset} were overwritten at ${i}`);
+        }
+      }
+    }
+  }
+
+  private describeUnknownBlock(block: MemoryBlockRef): string {
+    const end = block.offset + block.size;
+    if (end > this.stats().heapTop) {
+      return `Block at ${block.offset} is outside the heap`;
+    }
+    for (let i = 0; i < this.freeBlockCount; i++) {
+      const freeOffset = this.freeBlockOffset(i);
+      if (freeOffset <= block.offset && end <= freeOffset + this.freeBlockSize(i)) {
+        return `Block at ${block.offset} is already free`;
+      }
+    }
+    for (const [offset, { size }] of this._live) {
+      if (offset < end && block.offset < offset + size) {
+        return `Block at ${block.offset} overlaps the live block at ${offset}`;
+      }
+    }
+    return `Block at ${block.offset} was not allocated by this allocator`;
+  }
+}
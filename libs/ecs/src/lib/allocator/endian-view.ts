@@ -0,0 +1,77 @@
+/** Byte order of the running platform, typed arrays always use it */
+export const HOST_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * DataView reading and writing little-endian unless told otherwise, so code
+ * calling `getUint32(offset)` works the same in both allocator modes.
+ */
+class LittleEndianDataView extends DataView {
+  public override getInt16(byteOffset: number, littleEndian = true) {
+    return super.getInt16(byteOffset, littleEndian);
+  }
+
+  public override getUint16(byteOffset: number, littleEndian = true) {
+    return super.getUint16(byteOffset, littleEndian);
+  }
+
+  public override getInt32(byteOffset: number, littleEndian = true) {
+    return super.getInt32(byteOffset, littleEndian);
+  }
+
+  public override getUint32(byteOffset: number, littleEndian = true) {
+    return super.getUint32(byteOffset, littleEndian);
+  }
+
+  public override getFloat32(byteOffset: number, littleEndian = true) {
+    return super.getFloat32(byteOffset, littleEndian);
+  }
+
+  public override getFloat64(byteOffset: number, littleEndian = true) {
+    return super.getFloat64(byteOffset, littleEndian);
+  }
+
+  public override getBigInt64(byteOffset: number, littleEndian = true) {
+    return super.getBigInt64(byteOffset, littleEndian);
+  }
+
+  public override getBigUint64(byteOffset: number, littleEndian = true) {
+    return super.getBigUint64(byteOffset, littleEndian);
+  }
+
+  public override setInt16(byteOffset: number, value: number, littleEndian = true) {
+    super.setInt16(byteOffset, value, littleEndian);
+  }
+
+  public override setUint16(byteOffset: number, value: number, littleEndian = true) {
+    super.setUint16(byteOffset, value, littleEndian);
+  }
+
+  public override setInt32(byteOffset: number, value: number, littleEndian = true) {
+    super.setInt32(byteOffset, value, littleEndian);
+  }
+
+  public override setUint32(byteOffset: number, value: number, littleEndian = true) {
+    super.setUint32(byteOffset, value, littleEndian);
+  }
+
+  public override setFloat32(byteOffset: number, value: number, littleEndian = true) {
+    super.setFloat32(byteOffset, value, littleEndian);
+  }
+
+  public override setFloat64(byteOffset: number, value: number, littleEndian = true) {
+    super.setFloat64(byteOffset, value, littleEndian);
+  }
+
+  public override setBigInt64(byteOffset: number, value: bigint, littleEndian = true) {
+    super.setBigInt64(byteOffset, value, littleEndian);
+  }
+
+  public override setBigUint64(byteOffset: number, value: bigint, littleEndian = true) {
+    super.setBigUint64(byteOffset, value, littleEndian);
+  }
+}
+
+/** Big-endian views are plain DataViews, the platform default */
+export function createView(buffer: ArrayBuffer, littleEndian: boolean): DataView {
+  return littleEndian ? new LittleEndianDataView(buffer) : new DataView(buffer);
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { doublingGrowth, fixedStepGrowth, toFitGrowth } from './growth-policy';
+
+describe('growth policies', () => {
+  it('should double until the request fits', () => {
+    expect(doublingGrowth(1024, 1025)).toBe(2048);
+    expect(doublingGrowth(1024, 5000)).toBe(8192);
+  });
+
+  it('should grow by whole steps', () => {
+    expect(fixedStepGrowth(256)(1024, 1025)).toBe(1280);
+    expect(fixedStepGrowth(256)(1024, 1600)).toBe(1792);
+    expect(() => fixedStepGrowth(0)).toThrow('Growth step 0 must be positive');
+  });
+
+  it('should grow exactly to the request', () => {
+    expect(toFitGrowth(1024, 1500)).toBe(1500);
+  });
+});
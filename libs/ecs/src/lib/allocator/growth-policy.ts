@@ -0,0 +1,30 @@
+/** Picks the new buffer size when `requiredSize` bytes no longer fit, the allocator never goes below `requiredSize` */
+export type GrowthPolicy = (currentSize: number, requiredSize: number) => number;
+
+/** Doubles until the request fits, the default */
+export const doublingGrowth: GrowthPolicy = (currentSize, requiredSize) => {
+  let size = Math.max(currentSize, 1);
+  while (size < requiredSize) size *= 2;
+  return size;
+};
+
+/** Grows by whole steps of `step` bytes */
+export function fixedStepGrowth(step: number): GrowthPolicy {
+  if (step <= 0) {
+    throw new Error(`Growth step ${step} must be positive`);
+  }
+  return (currentSize, requiredSize) => currentSize + Math.ceil((requiredSize - currentSize) / step) * step;
+}
+
+/** Grows exactly to the required size */
+export const toFitGrowth: GrowthPolicy = (_currentSize, requiredSize) => requiredSize;
+
+export class OutOfMemoryError extends Error {
+  constructor(
+    public readonly requiredSize: number,
+    public readonly maxBytes: number
+  ) {
+    super(`Allocator needs ${requiredSize} bytes but is limited to ${maxBytes}`);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,136 @@
+import { BufferFormatError, FORMAT_MAGIC, FormatMigration, FormatMigrations } from './buffer-format';
+
+/**
+ * The unversioned layout the first allocator wrote: heap top, free block count and
+ * structure count as big-endian Uint32s, then `maxFreeBlocks` free table entries
+ * (offset, size) and the structure table (id, offset) right after them.
+ */
+export const LEGACY_FORMAT_VERSION = 1;
+
+/** The constructor default of the legacy allocator, it was never saved in the buffer */
+export const LEGACY_MAX_FREE_BLOCKS = 100;
+
+const LEGACY_HEADER_SIZE = 12;
+
+// The version 2 layout written by the migration, see the header layout in allocator.ts
+const HEADER_SIZE = 40;
+const MAGIC_OFFSET = 28;
+const VERSION_OFFSET = 32;
+const MIN_TABLE_CAPACITY = 16;
+
+/** Whether the counts at 0, 4 and 8 can belong to a legacy buffer, which has no magic bytes to check */
+export function isLegacyBuffer(buffer: ArrayBufferLike): boolean {
+  if (buffer.byteLength < LEGACY_HEADER_SIZE) return false;
+  const view = new DataView(buffer);
+  const heapTop = view.getUint32(0);
+  const freeBlockCount = view.getUint32(4);
+  const structureCount = view.getUint32(8);
+  return (
+    heapTop >= LEGACY_HEADER_SIZE &&
+    heapTop <= buffer.byteLength &&
+    LEGACY_HEADER_SIZE + freeBlockCount * 8 <= heapTop &&
+    LEGACY_HEADER_SIZE + structureCount * 8 <= buffer.byteLength
+  );
+}
+
+function tableCapacity(count: number): number {
+  let capacity = MIN_TABLE_CAPACITY;
+  while (capacity < count) capacity *= 2;
+  return capacity;
+}
+
+/**
+ * Rewrites a legacy buffer in the version 2 layout. Blocks keep their offsets,
+ * the new tables go to the heap top and the old free table becomes a free block.
+ * Structures load untyped, with the offsets the legacy allocator recorded.
+ * Counts and blocks that do not fit the layout throw a `BufferFormatError`.
+ */
+export function legacyFormatMigration(maxFreeBlocks = LEGACY_MAX_FREE_BLOCKS): FormatMigration {
+  return (buffer) => {
+    const legacy = new DataView(buffer);
+    const heapTop = legacy.getUint32(0);
+    const freeBlockCount = legacy.getUint32(4);
+    const structureCount = legacy.getUint32(8);
+    const structureTable = LEGACY_HEADER_SIZE + maxFreeBlocks * 8;
+    // Legacy buffers have no magic bytes, counts that do not fit the layout mean it is something else
+    if (heapTop < structureTable) {
+      throw new BufferFormatError(`Legacy heap top ${heapTop} is inside the free table of ${maxFreeBlocks} entries`);
+    }
+    if (freeBlockCount > maxFreeBlocks) {
+      throw new BufferFormatError(`Legacy free table holds ${freeBlockCount} entries but has room for ${maxFreeBlocks}`);
+    }
+    if (structureTable + structureCount * 8 > buffer.byteLength) {
+      throw new BufferFormatError(`Legacy structure table of ${structureCount} entries is outside the buffer`);
+    }
+
+    const freeBlocks: { offset: number; size: number }[] = [];
+    for (let i = 0; i < freeBlockCount; i++) {
+      const offset = legacy.getUint32(LEGACY_HEADER_SIZE + i * 8);
+      const size = legacy.getUint32(LEGACY_HEADER_SIZE + i * 8 + 4);
+      if (offset < structureTable || size === 0 || offset + size > heapTop) {
+        throw new BufferFormatError(`Legacy free block ${offset}+${size} is outside the heap`);
+      }
+      freeBlocks.push({ offset, size });
+    }
+    // Everything between the new header and the first block used to be the free table
+    freeBlocks.push({ offset: HEADER_SIZE, size: structureTable - HEADER_SIZE });
+    // Legacy frees swapped entries around, the new table is sorted and merged
+    freeBlocks.sort((a, b) => a.offset - b.offset);
+    const merged: { offset: number; size: number }[] = [];
+    for (const block of freeBlocks) {
+      const last = merged[merged.length - 1];
+      if (last && last.offset + last.size >= block.offset) {
+        last.size = Math.max(last.size, block.offset + block.size - last.offset);
+      } else {
+        merged.push({ ...block });
+      }
+    }
+
+    const structures: { id: number; offset: number }[] = [];
+    for (let i = 0; i < structureCount; i++) {
+      const entry = structureTable + i * 8;
+      structures.push({ id: legacy.getUint32(entry), offset: legacy.getUint32(entry + 4) });
+    }
+
+    for (const { id, offset } of structures) {
+      if (offset < HEADER_SIZE || offset >= heapTop) {
+        throw new BufferFormatError(`Legacy structure ${id} at ${offset} is outside the heap`);
+      }
+    }
+
+    const freeCapacity = tableCapacity(merged.length + 1);
+    const structureCapacity = tableCapacity(structures.length);
+    const freeTable = heapTop;
+    const newStructureTable = freeTable + freeCapacity * 8;
+    const newHeapTop = newStructureTable + structureCapacity * 16;
+
+    const migrated = new ArrayBuffer(Math.max(buffer.byteLength, newHeapTop));
+    new Uint8Array(migrated).set(new Uint8Array(buffer));
+    new Uint8Array(migrated).fill(0, 0, HEADER_SIZE);
+    const view = new DataView(migrated);
+    view.setUint32(0, newHeapTop);
+    view.setUint32(4, merged.length);
+    view.setUint32(8, structures.length);
+    view.setUint32(12, freeTable);
+    view.setUint32(16, freeCapacity);
+    view.setUint32(20, newStructureTable);
+    view.setUint32(24, structureCapacity);
+    FORMAT_MAGIC.forEach((byte, i) => view.setUint8(MAGIC_OFFSET + i, byte));
+    // Big-endian, byte aligned and unlocked, `fromBuffer` seals the migrated buffer
+    view.setUint8(VERSION_OFFSET, 2);
+
+    merged.forEach(({ offset, size }, i) => {
+      view.setUint32(freeTable + i * 8, offset);
+      view.setUint32(freeTable + i * 8 + 4, size);
+    });
+    structures.forEach(({ id, offset }, i) => {
+      view.setUint32(newStructureTable + i * 16, id);
+      view.setUint32(newStructureTable + i * 16 + 4, 0);
+      view.setUint32(newStructureTable + i * 16 + 8, offset);
+      view.setUint32(newStructureTable + i * 16 + 12, 0);
+    });
+    return migrated;
+  };
+}
+
+FormatMigrations.register(LEGACY_FORMAT_VERSION, legacyFormatMigration());
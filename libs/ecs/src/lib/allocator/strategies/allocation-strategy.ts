@@ -0,0 +1,21 @@
+/** Read access to the allocator's free table, sorted by offset */
+export interface FreeBlockSource {
+  readonly freeBlockCount: number;
+  freeBlockOffset(index: number): number;
+  freeBlockSize(index: number): number;
+}
+
+/**
+ * Decides which free block serves an allocation. The free table in the buffer
+ * stays the source of truth, a strategy may only keep an index over it and is
+ * told about every block entering or leaving the table.
+ * Strategies are stateful, use one instance per allocator.
+ */
+export interface AllocationStrategy {
+  /** Drops any index and rebuilds it from the free table, e.g. after `Allocator.fromBuffer` */
+  reset(source: FreeBlockSource): void;
+  added(offset: number, size: number): void;
+  removed(offset: number, size: number): void;
+  /** Offset of a free block of at least `size` bytes, or -1 when none fits */
+  find(size: number, source: FreeBlockSource): number;
+}
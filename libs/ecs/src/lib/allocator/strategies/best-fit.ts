@@ -0,0 +1,30 @@
+import { AllocationStrategy, FreeBlockSource } from './allocation-strategy';
+
+/** Smallest free block that fits, trading a full scan for less fragmentation */
+export class BestFitStrategy implements AllocationStrategy {
+  public reset() {
+    // Nothing to rebuild
+  }
+
+  public added() {
+    // Nothing to track
+  }
+
+  public removed() {
+    // Nothing to track
+  }
+
+  public find(size: number, source: FreeBlockSource): number {
+    let best = -1;
+    let bestSize = Infinity;
+    for (let i = 0; i < source.freeBlockCount; i++) {
+      const blockSize = source.freeBlockSize(i);
+      if (blockSize >= size && blockSize < bestSize) {
+        best = source.freeBlockOffset(i);
+        bestSize = blockSize;
+        if (blockSize === size) break;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,25 @@
+import { AllocationStrategy, FreeBlockSource } from './allocation-strategy';
+
+/** Lowest-address free block that fits, keeps no index */
+export class FirstFitStrategy implements AllocationStrategy {
+  public reset() {
+    // Nothing to rebuild
+  }
+
+  public added() {
+    // Nothing to track
+  }
+
+  public removed() {
+    // Nothing to track
+  }
+
+  public find(size: number, source: FreeBlockSource): number {
+    for (let i = 0; i < source.freeBlockCount; i++) {
+      if (source.freeBlockSize(i) >= size) {
+        return source.freeBlockOffset(i);
+      }
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,40 @@
+import { SegregatedFitStrategy } from './segregated-fit';
+
+describe('SegregatedFitStrategy', () => {
+  const source = (blocks: [number, number][]) => ({
+    freeBlockCount: blocks.length,
+    freeBlockOffset: (index: number) => blocks[index][0],
+    freeBlockSize: (index: number) => blocks[index][1],
+  });
+
+  it('should bin sizes by power of two', () => {
+    expect(SegregatedFitStrategy.sizeClass(1)).toBe(0);
+    expect(SegregatedFitStrategy.sizeClass(8)).toBe(3);
+    expect(SegregatedFitStrategy.sizeClass(15)).toBe(3);
+    expect(SegregatedFitStrategy.sizeClass(16)).toBe(4);
+  });
+
+  it('should find a fitting block in the same class first', () => {
+    const strategy = new SegregatedFitStrategy();
+    strategy.reset(source([[100, 12], [200, 14], [300, 64]]));
+
+    expect(strategy.find(13)).toBe(200);
+    expect(strategy.find(8)).toBe(100);
+  });
+
+  it('should fall back to a larger class', () => {
+    const strategy = new SegregatedFitStrategy();
+    strategy.reset(source([[100, 12], [300, 64]]));
+
+    expect(strategy.find(14)).toBe(300);
+    expect(strategy.find(65)).toBe(-1);
+  });
+
+  it('should forget removed blocks', () => {
+    const strategy = new SegregatedFitStrategy();
+    strategy.added(100, 32);
+    strategy.removed(100, 32);
+
+    expect(strategy.find(16)).toBe(-1);
+  });
+});
@@ -0,0 +1,53 @@
+import { AllocationStrategy, FreeBlockSource } from './allocation-strategy';
+
+const CLASS_COUNT = 32;
+
+/**
+ * Bins free blocks by power-of-two size class. A request first checks its own
+ * class, then takes any block of the next non-empty larger class, which is
+ * guaranteed to fit. A bit mask of non-empty classes keeps the lookup O(1).
+ */
+export class SegregatedFitStrategy implements AllocationStrategy {
+  private readonly _classes: Map<number, number>[] = Array.from({ length: CLASS_COUNT }, () => new Map());
+  private _nonEmpty = 0;
+
+  static sizeClass(size: number): number {
+    return 31 - Math.clz32(Math.max(size, 1));
+  }
+
+  public reset(source: FreeBlockSource) {
+    this._classes.forEach((blocks) => blocks.clear());
+    this._nonEmpty = 0;
+    for (let i = 0; i < source.freeBlockCount; i++) {
+      this.added(source.freeBlockOffset(i), source.freeBlockSize(i));
+    }
+  }
+
+  public added(offset: number, size: number) {
+    const sizeClass = SegregatedFitStrategy.sizeClass(size);
+    this._classes[sizeClass].set(offset, size);
+    this._nonEmpty |= 1 << sizeClass;
+  }
+
+  public removed(offset: number, size: number) {
+    const sizeClass = SegregatedFitStrategy.sizeClass(size);
+    const blocks = this._classes[sizeClass];
+    blocks.delete(offset);
+    if (blocks.size === 0) this._nonEmpty &= ~(1 << sizeClass);
+  }
+
+  public find(size: number): number {
+    const sizeClass = SegregatedFitStrategy.sizeClass(size);
+    if (this._nonEmpty & (1 << sizeClass)) {
+      for (const [offset, blockSize] of this._classes[sizeClass]) {
+        if (blockSize >= size) return offset;
+      }
+    }
+
+    // Every block of a larger class is at least twice the lower bound of this one
+    const larger = sizeClass >= 31 ? 0 : this._nonEmpty & ~((2 << sizeClass) - 1);
+    if (larger === 0) return -1;
+    const next = 31 - Math.clz32(larger & -larger);
+    return this._classes[next].keys().next().value ?? -1;
+  }
+}
@@ -0,0 +1,95 @@
+import { Allocator } from '../../allocator';
+import { Column } from './column';
+
+describe('Column', () => {
+  it('should store values of its element type', () => {
+    const allocator = new Allocator(1024);
+    const floats = new Column(allocator, 'f32', 4);
+    const signed = new Column(allocator, 'i16', 4);
+    floats.push(1.5);
+    signed.push(-300);
+
+    expect(floats.get(0)).toBe(1.5);
+    expect(signed.get(0)).toBe(-300);
+  });
+
+  it('should grow by doubling when capacity is reached', () => {
+    const allocator = new Allocator(1024);
+    const column = new Column(allocator, 'f64', 2);
+    for (let i = 0; i < 5; i++) {
+      column.push(i + 0.25);
+    }
+
+    expect(column.capacity).toBe(8);
+    expect(column.length).toBe(5);
+    for (let i = 0; i < 5; i++) {
+      expect(column.get(i)).toBe(i + 0.25);
+    }
+  });
+
+  it('should extend with a fill value', () => {
+    const allocator = new Allocator(1024);
+    const column = new Column(allocator, 'u32', 2);
+    column.extend(5, 7);
+
+    expect(column.length).toBe(5);
+    expect(column.get(4)).toBe(7);
+  });
+
+  it('should swap remove elements', () => {
+    const allocator = new Allocator(1024);
+    const column = new Column(allocator, 'u8', 4);
+    column.push(1);
+    column.push(2);
+    column.push(3);
+    column.swapRemove(0);
+
+    expect(column.length).toBe(2);
+    expect(column.get(0)).toBe(3);
+    expect(column.get(1)).toBe(2);
+  });
+
+  it('should be recreated by Allocator.fromBuffer', () => {
+    const allocator = new Allocator(1024);
+    const column = new Column(allocator, 'f32', 2);
+    column.push(0.5);
+    column.push(2.5);
+    column.push(4.5);
+
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    const restored = restoredAllocator.getStructure<Column>(column.__ID);
+
+    expect(restored).toBeInstanceOf(Column);
+    expect(restored.length).toBe(3);
+    expect(restored.capacity).toBe(4);
+    expect(restored.type).toBe('f32');
+    expect(restored.get(2)).toBe(4.5);
+  });
+
+  it('should keep its structure entry current when it moves', () => {
+    const allocator = new Allocator(1024);
+    const column = new Column(allocator, 'u16', 1);
+    allocator.allocate(4);
+    column.push(1);
+    column.push(2);
+
+    expect(allocator.getStructureOffset(column.__ID)).toBe(column.offset);
+    column.destroy();
+    expect(() => allocator.getStructureOffset(column.__ID)).toThrow(`Structure with ID ${column.__ID} not found`);
+  });
+
+  it('should throw error when accessing out of bounds', () => {
+    const column = new Column(new Allocator(1024), 'u16');
+    expect(() => column.get(0)).toThrow('Index out of bounds');
+    expect(() => column.set(0, 1)).toThrow('Index out of bounds');
+
+    column.push(1);
+    for (const index of [-1, 0.5]) {
+      expect(() => column.get(index)).toThrow('Index out of bounds');
+      expect(() => column.set(index, 7)).toThrow('Index out of bounds');
+      expect(() => column.swapRemove(index)).toThrow('Index out of bounds');
+    }
+    expect(column.length).toBe(1);
+    expect(column.capacity).toBe(16);
+  });
+});
@@ -0,0 +1,24 @@
+import { Allocator } from '../../allocator';
+import { ARRAY_ELEMENT_TYPES, ElementType } from '../element-type';
+import { ResizableArray } from '../resazible-array/resizable-array';
+import { STRUCTURE_TYPE_COLUMN, StructureRegistry } from '../structure-registry';
+
+/**
+ * Growable array of a single numeric element type, the storage unit for one component field.
+ * A `ResizableArray` under its own structure tag, so columns come back as columns from a saved buffer.
+ */
+export class Column extends ResizableArray<ElementType> {
+  /** Pass `existing` to attach to a column already registered in the allocator instead of creating one */
+  constructor(allocator: Allocator, type: ElementType, initialCapacity = 16, existing?: { id: number; offset: number }) {
+    super(allocator, Math.max(initialCapacity, 1), type, existing);
+  }
+
+  protected override get structureType(): number {
+    return STRUCTURE_TYPE_COLUMN;
+  }
+}
+
+StructureRegistry.register(
+  STRUCTURE_TYPE_COLUMN,
+  (allocator, entry) => new Column(allocator, ARRAY_ELEMENT_TYPES[entry.param] as ElementType, 0, entry)
+);
@@ -0,0 +1,41 @@
+export type ElementType = 'i8' | 'u8' | 'i16' | 'u16' | 'i32' | 'u32' | 'f32' | 'f64';
+
+/** 64-bit integer kinds, read and written as `bigint` */
+export type BigIntElementType = 'i64' | 'u64';
+
+export type ArrayElementType = ElementType | BigIntElementType;
+
+/** Stable numbering of the element kinds, used when a kind is saved into a buffer */
+export const ARRAY_ELEMENT_TYPES: ReadonlyArray<ArrayElementType> = ['i8', 'u8', 'i16', 'u16', 'i32', 'u32', 'f32', 'f64', 'i64', 'u64'];
+
+export type ElementValue<K extends ArrayElementType> = K extends BigIntElementType ? bigint : number;
+
+export interface ElementDescriptor<T extends number | bigint = number> {
+  readonly size: number;
+  get(view: DataView, offset: number): T;
+  set(view: DataView, offset: number, value: T): void;
+}
+
+export const ELEMENT_TYPES: Readonly<Record<ElementType, ElementDescriptor>> = {
+  i8: { size: 1, get: (view, offset) => view.getInt8(offset), set: (view, offset, value) => view.setInt8(offset, value) },
+  u8: { size: 1, get: (view, offset) => view.getUint8(offset), set: (view, offset, value) => view.setUint8(offset, value) },
+  i16: { size: 2, get: (view, offset) => view.getInt16(offset), set: (view, offset, value) => view.setInt16(offset, value) },
+  u16: { size: 2, get: (view, offset) => view.getUint16(offset), set: (view, offset, value) => view.setUint16(offset, value) },
+  i32: { size: 4, get: (view, offset) => view.getInt32(offset), set: (view, offset, value) => view.setInt32(offset, value) },
+  u32: { size: 4, get: (view, offset) => view.getUint32(offset), set: (view, offset, value) => view.setUint32(offset, value) },
+  f32: { size: 4, get: (view, offset) => view.getFloat32(offset), set: (view, offset, value) => view.setFloat32(offset, value) },
+  f64: { size: 8, get: (view, offset) => view.getFloat64(offset), set: (view, offset, value) => view.setFloat64(offset, value) },
+};
+
+export const BIGINT_ELEMENT_TYPES: Readonly<Record<BigIntElementType, ElementDescriptor<bigint>>> = {
+  i64: { size: 8, get: (view, offset) => view.getBigInt64(offset), set: (view, offset, value) => view.setBigInt64(offset, value) },
+  u64: { size: 8, get: (view, offset) => view.getBigUint64(offset), set: (view, offset, value) => view.setBigUint64(offset, value) },
+};
+
+export function elementDescriptor<K extends ArrayElementType>(type: K): ElementDescriptor<ElementValue<K>> {
+  const descriptor = type in ELEMENT_TYPES ? ELEMENT_TYPES[type as ElementType] : BIGINT_ELEMENT_TYPES[type as BigIntElementType];
+  if (!descriptor) {
+    throw new Error(`Unknown element type ${type}`);
+  }
+  return descriptor as ElementDescriptor<ElementValue<K>>;
+}
@@ -1,4 +1,5 @@
 import { Allocator } from '../../allocator';
+import { HOST_LITTLE_ENDIAN } from '../../endian-view';
 import { ResizableArray } from './resizable-array';
 
 describe('ResizableArray', () => {
@@ -35,6 +36,24 @@ describe('ResizableArray', () => {
     expect(() => array.get(0)).toThrow('Index out of bounds');
   });
 
+  it('should reject negative and fractional indices without touching the metadata', () => {
+    const allocator = new Allocator(1024);
+    const array = new ResizableArray(allocator, 4);
+    array.push(1);
+    array.push(2);
+
+    for (const index of [-1, 0.5, NaN]) {
+      expect(() => array.get(index)).toThrow('Index out of bounds');
+      expect(() => array.set(index, 99)).toThrow('Index out of bounds');
+      expect(() => array.insert(index, 99)).toThrow('Index out of bounds');
+      expect(() => array.removeAt(index)).toThrow('Index out of bounds');
+      expect(() => array.swapRemove(index)).toThrow('Index out of bounds');
+    }
+    expect(array.length).toBe(2);
+    expect(array.capacity).toBe(4);
+    expect(allocator.view.getUint32(array.offset + 4)).toBe(4);
+  });
+
   it('should restore state from buffer', () => {
     const allocator = new Allocator(1024);
     const array = new ResizableArray(allocator, 2);
@@ -43,13 +62,10 @@ describe('ResizableArray', () => {
     const buffer = allocator.buffer.slice(0);
 
     const restoredAllocator = Allocator.fromBuffer(buffer);
-    const restoredArray = new ResizableArray(restoredAllocator);
-    const offset = restoredAllocator.getStructureOffset(array.__ID);
-    restoredArray.restore(offset);
-
-    console.log('array', array.__ID, array.length, array.capacity, allocator.getStructureOffset(array.__ID));
-    console.log('restoredArray', restoredArray.__ID, restoredArray.length, restoredArray.capacity, restoredAllocator.getStructureOffset(array.__ID));
+    const restoredArray = restoredAllocator.getStructure<ResizableArray>(array.__ID);
 
+    expect(restoredArray).toBeInstanceOf(ResizableArray);
+    expect(restoredArray.__ID).toBe(array.__ID);
     expect(restoredArray.get(0)).toBe(42);
     expect(restoredArray.get(1)).toBe(84);
     expect(restoredArray.length).toBe(2);
@@ -100,13 +116,8 @@ describe('ResizableArray', () => {
 
     const buffer = allocator.buffer;
     const restoredAllocator = Allocator.fromBuffer(buffer);
-    const restoredArray1 = new ResizableArray(restoredAllocator);
-    const restoredArray2 = new ResizableArray(restoredAllocator);
-
-    const offset1 = restoredAllocator.getStructureOffset(array1.__ID);
-    const offset2 = restoredAllocator.getStructureOffset(array2.__ID);
-    restoredArray1.restore(offset1);
-    restoredArray2.restore(offset2);
+    const restoredArray1 = restoredAllocator.getStructure<ResizableArray>(array1.__ID);
+    const restoredArray2 = restoredAllocator.getStructure<ResizableArray>(array2.__ID);
 
     expect(restoredArray1.length).toBe(10);
     expect(restoredArray2.length).toBe(10);
@@ -116,4 +127,259 @@ describe('ResizableArray', () => {
       expect(restoredArray2.get(i)).toBe(i * 10);
     }
   });
+
+  it('should keep its registry entry in sync when resizing', () => {
+    const allocator = new Allocator(1024);
+    const array = new ResizableArray(allocator, 2);
+    // Sits right after the first array so it cannot grow in place
+    new ResizableArray(allocator, 2);
+    for (let i = 0; i < 5; i++) {
+      array.push(i);
+    }
+
+    expect(allocator.getStructureOffset(array.__ID)).toBe(array.offset);
+    expect(allocator.structureEntries().find((entry) => entry.id === array.__ID)?.offset).toBe(array.offset);
+  });
+
+  it('should stay consistent when the buffer expands', () => {
+    const allocator = new Allocator(512);
+    const array = new ResizableArray(allocator, 2);
+    for (let i = 0; i < 200; i++) {
+      array.push(i);
+    }
+
+    expect(allocator.buffer.byteLength).toBeGreaterThan(512);
+    expect([...array]).toEqual(Array.from({ length: 200 }, (_, i) => i));
+    expect([...Allocator.fromBuffer(allocator.buffer).getStructure<ResizableArray>(array.__ID)]).toEqual([...array]);
+  });
+
+  it('should keep its contents through compaction', () => {
+    const allocator = new Allocator(1024);
+    const first = new ResizableArray(allocator, 2);
+    const second = new ResizableArray(allocator, 2);
+    for (let i = 0; i < 10; i++) {
+      first.push(i);
+      second.push(i * 2);
+    }
+    first.destroy();
+    allocator.compact({ truncate: true });
+
+    expect(allocator.freeBlockCount).toBe(0);
+    expect([...second]).toEqual(Array.from({ length: 10 }, (_, i) => i * 2));
+    second.push(20);
+    expect(Allocator.fromBuffer(allocator.buffer).getStructure<ResizableArray>(second.__ID).get(10)).toBe(20);
+  });
+
+  it('should unregister when destroyed', () => {
+    const allocator = new Allocator(1024);
+    const first = new ResizableArray(allocator, 2);
+    const second = new ResizableArray(allocator, 2);
+    second.push(7);
+    first.destroy();
+
+    expect(allocator.structureEntries().map((entry) => entry.id)).toEqual([second.__ID]);
+    expect(() => allocator.getStructureOffset(first.__ID)).toThrow(`Structure with ID ${first.__ID} not found`);
+    expect(Allocator.fromBuffer(allocator.buffer).getStructure<ResizableArray>(second.__ID).get(0)).toBe(7);
+  });
+
+  it('should recreate arrays of every element type from a buffer', () => {
+    const allocator = new Allocator(1024);
+    const floats = new ResizableArray(allocator, 4, 'f32');
+    const longs = new ResizableArray(allocator, 4, 'i64');
+    floats.push(0.5);
+    longs.push(BigInt(-7));
+
+    const restoredAllocator = Allocator.fromBuffer(allocator.buffer);
+    const restoredFloats = restoredAllocator.getStructure<ResizableArray<'f32'>>(floats.__ID);
+    const restoredLongs = restoredAllocator.getStructure<ResizableArray<'i64'>>(longs.__ID);
+
+    expect(restoredFloats.type).toBe('f32');
+    expect(restoredFloats.get(0)).toBe(0.5);
+    expect(restoredLongs.get(0)).toBe(BigInt(-7));
+  });
+
+  describe('element types', () => {
+    it('should default to u32 with a 4-byte stride', () => {
+      const array = new ResizableArray(new Allocator(1024));
+      expect(array.type).toBe('u32');
+      expect(array.stride).toBe(4);
+    });
+
+    it('should store floats without truncating them', () => {
+      const allocator = new Allocator(1024);
+      const floats = new ResizableArray(allocator, 2, 'f32');
+      const doubles = new ResizableArray(allocator, 2, 'f64');
+      floats.push(1.5);
+      doubles.push(Math.PI);
+
+      expect(floats.get(0)).toBe(1.5);
+      expect(doubles.get(0)).toBe(Math.PI);
+      expect(doubles.stride).toBe(8);
+    });
+
+    it('should store signed values', () => {
+      const allocator = new Allocator(1024);
+      const i8 = new ResizableArray(allocator, 2, 'i8');
+      const i16 = new ResizableArray(allocator, 2, 'i16');
+      const i32 = new ResizableArray(allocator, 2, 'i32');
+      i8.push(-100);
+      i16.push(-30000);
+      i32.push(-2000000000);
+
+      expect(i8.get(0)).toBe(-100);
+      expect(i16.get(0)).toBe(-30000);
+      expect(i32.get(0)).toBe(-2000000000);
+    });
+
+    it('should store 64-bit integers as bigint', () => {
+      const array = new ResizableArray(new Allocator(1024), 2, 'i64');
+      array.push(BigInt(-1));
+      array.push(BigInt('1152921504606846976'));
+
+      expect(array.get(0)).toBe(BigInt(-1));
+      expect(array.get(1)).toBe(BigInt('1152921504606846976'));
+    });
+
+    it('should size resized blocks by stride', () => {
+      const allocator = new Allocator(1024);
+      const array = new ResizableArray(allocator, 2, 'u8');
+      for (let i = 0; i < 5; i++) {
+        array.push(i * 50);
+      }
+
+      expect(array.capacity).toBe(8);
+      for (let i = 0; i < 5; i++) {
+        expect(array.get(i)).toBe(i * 50);
+      }
+      // The block at the heap top grew in place from 8 + 2 to 8 + 8 bytes
+      expect(allocator.view.getUint32(0)).toBe(40 + 16 * 8 + 16 * 16 + 16);
+    });
+  });
+
+  describe('mutation', () => {
+    const filled = (values: number[], capacity = 4) => {
+      const allocator = new Allocator(1024);
+      const array = new ResizableArray(allocator, capacity, 'i32');
+      array.pushMany(values);
+      return { allocator, array };
+    };
+
+    // Reads length and capacity back from the block header, as restore does
+    const restored = (allocator: Allocator, array: ResizableArray<'i32'>) => {
+      const copy = new ResizableArray(allocator, 1, 'i32');
+      copy.restore(array.offset);
+      return copy;
+    };
+
+    it('should set and pop elements', () => {
+      const { allocator, array } = filled([1, 2, 3]);
+      array.set(0, -1);
+
+      expect(array.pop()).toBe(3);
+      expect([...array]).toEqual([-1, 2]);
+      expect(restored(allocator, array).length).toBe(2);
+      array.clear();
+      expect(array.pop()).toBeUndefined();
+    });
+
+    it('should insert and remove while keeping order', () => {
+      const { allocator, array } = filled([1, 2, 3, 4]);
+      array.insert(1, 9);
+      array.insert(5, 10);
+
+      expect([...array]).toEqual([1, 9, 2, 3, 4, 10]);
+      expect(array.removeAt(0)).toBe(1);
+      expect([...array]).toEqual([9, 2, 3, 4, 10]);
+      expect([...restored(allocator, array)]).toEqual([9, 2, 3, 4, 10]);
+      expect(() => array.insert(7, 0)).toThrow('Index out of bounds');
+    });
+
+    it('should swap remove elements', () => {
+      const { array } = filled([1, 2, 3, 4]);
+
+      expect(array.swapRemove(0)).toBe(1);
+      expect([...array]).toEqual([4, 2, 3]);
+      expect(array.swapRemove(2)).toBe(3);
+      expect([...array]).toEqual([4, 2]);
+    });
+
+    it('should extend with a fill value or zeroes', () => {
+      const { allocator, array } = filled([1, 2, 3], 4);
+      array.pop();
+      array.extend(6);
+
+      expect([...array]).toEqual([1, 2, 0, 0, 0, 0]);
+      array.extend(8, -7);
+      expect([...array]).toEqual([1, 2, 0, 0, 0, 0, -7, -7]);
+      array.extend(2);
+      expect(restored(allocator, array).length).toBe(8);
+    });
+
+    it('should reserve and shrink capacity', () => {
+      const { allocator, array } = filled([1, 2, 3], 2);
+      array.reserve(20);
+      expect(array.capacity).toBe(32);
+
+      array.shrinkToFit();
+      expect(array.capacity).toBe(3);
+      expect([...array]).toEqual([1, 2, 3]);
+      expect(restored(allocator, array).capacity).toBe(3);
+
+      array.clear();
+      array.shrinkToFit();
+      expect(array.capacity).toBe(1);
+      array.pushMany([5, 6]);
+      expect([...array]).toEqual([5, 6]);
+    });
+
+    it('should copy out into a typed array of its kind', () => {
+      const { array } = filled([-1, 2, 3]);
+      const typed = array.toTypedArray();
+
+      expect(typed).toBeInstanceOf(Int32Array);
+      expect(Array.from(typed)).toEqual([-1, 2, 3]);
+      expect(new ResizableArray(new Allocator(1024), 2, 'u64').toTypedArray()).toBeInstanceOf(BigUint64Array);
+    });
+  });
+
+  describe('typed views', () => {
+    it('should view the live range without copying', () => {
+      const allocator = new Allocator(1024, { littleEndian: HOST_LITTLE_ENDIAN, alignment: 8 });
+      const array = new ResizableArray(allocator, 4, 'f32');
+      array.pushMany([1.5, 2.5, 3.5]);
+
+      const view = array.view();
+      expect(view).toBeInstanceOf(Float32Array);
+      expect(Array.from(view)).toEqual([1.5, 2.5, 3.5]);
+
+      view[1] = 10;
+      expect(array.get(1)).toBe(10);
+    });
+
+    it('should refuse a view in a foreign byte order', () => {
+      const array = new ResizableArray(new Allocator(1024, { littleEndian: !HOST_LITTLE_ENDIAN }), 4);
+      expect(() => array.view()).toThrow('ResizableArray view needs an allocator in host byte order aligned to 4 bytes');
+    });
+
+    it('should align its elements to their size', () => {
+      const allocator = new Allocator(1024, { littleEndian: HOST_LITTLE_ENDIAN });
+      allocator.allocate(1);
+      const array = new ResizableArray(allocator, 4, 'f64');
+      array.push(Math.PI);
+
+      expect(array.offset % 8).toBe(0);
+      expect(Array.from(array.view())).toEqual([Math.PI]);
+    });
+
+    it('should refuse a view over misaligned elements', () => {
+      const allocator = new Allocator(1024, { littleEndian: HOST_LITTLE_ENDIAN });
+      const block = allocator.allocate(41);
+      const array = new ResizableArray(allocator, 4, 'f64');
+      allocator.view.setUint32(block.offset + 1, 0);
+      allocator.view.setUint32(block.offset + 5, 4);
+      array.restore(block.offset + 1);
+
+      expect(() => array.view()).toThrow('ResizableArray view needs an allocator in host byte order aligned to 8 bytes');
+    });
+  });
 });
@@ -1,9 +1,28 @@
 import { Allocator, MemoryBlockRef } from '../../allocator';
+import { HOST_LITTLE_ENDIAN } from '../../endian-view';
+import { ARRAY_ELEMENT_TYPES, ArrayElementType, ElementDescriptor, elementDescriptor, ElementValue } from '../element-type';
+import { STRUCTURE_TYPE_RESIZABLE_ARRAY, StructureRegistry } from '../structure-registry';
 
-export class ResizableArray {
+const TYPED_ARRAYS = {
+  i8: Int8Array,
+  u8: Uint8Array,
+  i16: Int16Array,
+  u16: Uint16Array,
+  i32: Int32Array,
+  u32: Uint32Array,
+  f32: Float32Array,
+  f64: Float64Array,
+  i64: BigInt64Array,
+  u64: BigUint64Array,
+};
+
+export type TypedArrayOf<K extends ArrayElementType> = InstanceType<(typeof TYPED_ARRAYS)[K]>;
+
+export class ResizableArray<K extends ArrayElementType = 'u32'> {
   private _length = 0;
   private _capacity: number;
   private _block: MemoryBlockRef;
+  private readonly _element: ElementDescriptor<ElementValue<K>>;
   public readonly __ID: number;
 
   public get length() {
@@ -14,13 +33,45 @@ export class ResizableArray {
     return this._capacity;
   }
 
+  /** Offset of the block holding the metadata and elements */
+  public get offset() {
+    return this._block.offset;
+  }
+
+  /** Size in bytes of one element */
+  public get stride() {
+    return this._element.size;
+  }
+
+  /** Tag recorded in the structure table, so `Allocator.fromBuffer` recreates the same class */
+  protected get structureType(): number {
+    return STRUCTURE_TYPE_RESIZABLE_ARRAY;
+  }
+
+  /** Pass `existing` to attach to an array already registered in the allocator instead of creating one */
   constructor(
     private readonly _allocator: Allocator,
-    private readonly _initialCapacity = 10
+    private readonly _initialCapacity = 10,
+    public readonly type: K = 'u32' as K,
+    existing?: { id: number; offset: number }
   ) {
+    this._element = elementDescriptor(type);
+    if (existing) {
+      this.__ID = existing.id;
+      this._capacity = 0;
+      this._block = new MemoryBlockRef(existing.offset, 8);
+      this.restore(existing.offset);
+      return;
+    }
+
     this._capacity = this._initialCapacity;
-    this._block = this._allocator.allocate(8 + this._capacity * 4); // 8 bytes for metadata (length and capacity)
-    this.__ID = this._allocator.registerStructure(this);
+    // 8 bytes for metadata (length and capacity), aligned so `view` works for every element type
+    this._block = this._allocator.allocate(8 + this._capacity * this.stride, this.stride);
+    this.__ID = this._allocator.registerStructure(this, {
+      offset: this._block.offset,
+      type: this.structureType,
+      param: ARRAY_ELEMENT_TYPES.indexOf(type),
+    });
     this.saveMetadata();
   }
 
@@ -34,39 +85,182 @@ export class ResizableArray {
     this._capacity = this._allocator.view.getUint32(this._block.offset + 4);
   }
 
-  public push(value: number) {
+  public push(value: ElementValue<K>) {
     if (this._length >= this._capacity) {
       this.resize();
     }
-    this._allocator.view.setUint32(this._block.offset + 8 + this._length * 4, value);
+    this._element.set(this._allocator.view, this.elementOffset(this._length), value);
     this._length++;
     this.saveMetadata();
   }
 
-  private resize() {
-    const newCapacity = this._capacity * 2;
-    const newBlock = this._allocator.allocate(8 + newCapacity * 4);
+  public pushMany(values: ArrayLike<ElementValue<K>>) {
+    this.reserve(this._length + values.length);
+    for (let i = 0; i < values.length; i++) {
+      this._element.set(this._allocator.view, this.elementOffset(this._length + i), values[i]);
+    }
+    this._length += values.length;
+    this.saveMetadata();
+  }
 
-    const oldView = new Uint8Array(this._allocator.buffer, this._block.offset + 8, this._capacity * 4);
-    const newView = new Uint8Array(this._allocator.buffer, newBlock.offset + 8, newCapacity * 4);
-    newView.set(oldView);
+  public pop(): ElementValue<K> | undefined {
+    if (this._length === 0) return undefined;
+    const value = this.get(this._length - 1);
+    this._length--;
+    this.saveMetadata();
+    return value;
+  }
 
-    this._allocator.free(this._block);
-    this._capacity = newCapacity;
-    this._block = newBlock;
+  public set(index: number, value: ElementValue<K>) {
+    this.checkIndex(index);
+
+    this._element.set(this._allocator.view, this.elementOffset(index), value);
+  }
+
+  /** Inserts at `index`, shifting the following elements up by one */
+  public insert(index: number, value: ElementValue<K>) {
+    this.checkIndex(index, this._length + 1);
+    if (this._length >= this._capacity) {
+      this.resize();
+    }
+    this.moveElements(index, index + 1, this._length - index);
+    this._element.set(this._allocator.view, this.elementOffset(index), value);
+    this._length++;
+    this.saveMetadata();
+  }
+
+  /** Removes the element at `index`, shifting the following elements down by one */
+  public removeAt(index: number): ElementValue<K> {
+    const value = this.get(index);
+    this.moveElements(index + 1, index, this._length - index - 1);
+    this._length--;
+    this.saveMetadata();
+    return value;
+  }
+
+  /** Removes the element at `index` by moving the last element into its slot, without preserving order */
+  public swapRemove(index: number): ElementValue<K> {
+    const value = this.get(index);
+    const last = this._length - 1;
+    if (index !== last) {
+      this._element.set(this._allocator.view, this.elementOffset(index), this.get(last));
+    }
+    this._length = last;
+    this.saveMetadata();
+    return value;
+  }
+
+  public clear() {
+    this._length = 0;
     this.saveMetadata();
   }
 
-  public get(index: number): number {
-    if (index >= this._length) {
+  /** Grows the capacity to at least `capacity` elements */
+  public reserve(capacity: number) {
+    if (capacity <= this._capacity) return;
+    let newCapacity = Math.max(this._capacity, 1);
+    while (newCapacity < capacity) newCapacity *= 2;
+    this.resize(newCapacity);
+  }
+
+  /** Grows the array to `length` elements, filling new slots with `fill` or zero bytes */
+  public extend(length: number, fill?: ElementValue<K>) {
+    if (length <= this._length) return;
+    this.reserve(length);
+    if (fill === undefined) {
+      new Uint8Array(this._allocator.buffer, this.elementOffset(this._length), (length - this._length) * this.stride).fill(0);
+    } else {
+      for (let i = this._length; i < length; i++) {
+        this._element.set(this._allocator.view, this.elementOffset(i), fill);
+      }
+    }
+    this._length = length;
+    this.saveMetadata();
+  }
+
+  /** Releases unused capacity, keeping room for at least one element */
+  public shrinkToFit() {
+    const newCapacity = Math.max(this._length, 1);
+    if (newCapacity < this._capacity) {
+      this.resize(newCapacity);
+    }
+  }
+
+  /** Copies the elements into a typed array of the matching kind */
+  public toTypedArray(): TypedArrayOf<K> {
+    const array = new TYPED_ARRAYS[this.type](this._length) as TypedArrayOf<K>;
+    for (let i = 0; i < this._length; i++) {
+      array[i] = this.get(i);
+    }
+    return array;
+  }
+
+  /**
+   * Zero-copy typed array over the live elements. Needs an allocator in the
+   * host byte order with the elements aligned to their size. After a resize
+   * or buffer growth it points at stale memory, take a new view.
+   */
+  public view(): TypedArrayOf<K> {
+    const offset = this.elementOffset(0);
+    if (this._allocator.littleEndian !== HOST_LITTLE_ENDIAN || offset % this.stride !== 0) {
+      throw new Error(`ResizableArray view needs an allocator in host byte order aligned to ${this.stride} bytes`);
+    }
+    return new TYPED_ARRAYS[this.type](this._allocator.buffer, offset, this._length) as TypedArrayOf<K>;
+  }
+
+  public *[Symbol.iterator](): IterableIterator<ElementValue<K>> {
+    for (let i = 0; i < this._length; i++) {
+      yield this.get(i);
+    }
+  }
+
+  /** Negative and fractional indices would address the metadata or straddle two elements */
+  private checkIndex(index: number, length = this._length) {
+    if (!Number.isInteger(index) || index < 0 || index >= length) {
       throw new Error('Index out of bounds');
     }
+  }
+
+  private elementOffset(index: number): number {
+    return this._block.offset + 8 + index * this.stride;
+  }
+
+  private moveElements(from: number, to: number, count: number) {
+    if (count <= 0) return;
+    const bytes = new Uint8Array(this._allocator.buffer, this._block.offset + 8, this._capacity * this.stride);
+    bytes.copyWithin(to * this.stride, from * this.stride, (from + count) * this.stride);
+  }
+
+  private resize(newCapacity = Math.max(this._capacity * 2, 1)) {
+    const offset = this._block.offset;
+    this._block = this._allocator.reallocate(this._block, 8 + newCapacity * this.stride, this.stride);
+    this._capacity = newCapacity;
+    if (this._block.offset !== offset) {
+      this._allocator.relocateStructure(this.__ID, this._block.offset);
+    }
+    this.saveMetadata();
+  }
+
+  /** Frees the block and removes the array from the allocator's structure table */
+  public destroy() {
+    this._allocator.unregisterStructure(this.__ID);
+    this._allocator.free(this._block);
+  }
 
-    return this._allocator.view.getUint32(this._block.offset + 8 + index * 4);
+  public get(index: number): ElementValue<K> {
+    this.checkIndex(index);
+
+    return this._element.get(this._allocator.view, this.elementOffset(index));
   }
 
   public restore(offset: number) {
-    this._block = new MemoryBlockRef(offset, this._capacity * 4 + 8);
+    this._block = new MemoryBlockRef(offset, 8);
     this.loadMetadata();
+    this._block = new MemoryBlockRef(offset, this._capacity * this.stride + 8);
   }
 }
+
+StructureRegistry.register(
+  STRUCTURE_TYPE_RESIZABLE_ARRAY,
+  (allocator, entry) => new ResizableArray(allocator, 0, ARRAY_ELEMENT_TYPES[entry.param], entry)
+);
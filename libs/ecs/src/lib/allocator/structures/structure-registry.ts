@@ -0,0 +1,37 @@
+import type { Allocator } from '../allocator';
+import { IFixedStruct, IResizableStruct } from './structures.types';
+
+/** Structures registered without a type cannot be recreated, only their offset is kept */
+export const STRUCTURE_TYPE_UNKNOWN = 0;
+export const STRUCTURE_TYPE_RESIZABLE_ARRAY = 1;
+export const STRUCTURE_TYPE_COLUMN = 2;
+
+/** One row of the structure table in the allocator header */
+export interface StructureEntry {
+  readonly id: number;
+  readonly type: number;
+  readonly offset: number;
+  /** Type specific, e.g. the element kind of a ResizableArray */
+  readonly param: number;
+}
+
+export type StructureFactory = (allocator: Allocator, entry: StructureEntry) => IResizableStruct | IFixedStruct;
+
+/**
+ * Factories keyed by structure type tag. `Allocator.fromBuffer` uses them to
+ * recreate every tagged structure found in a saved buffer.
+ */
+export class StructureRegistry {
+  private static readonly _factories = new Map<number, StructureFactory>();
+
+  static register(type: number, factory: StructureFactory) {
+    if (type === STRUCTURE_TYPE_UNKNOWN) {
+      throw new Error(`Structure type ${type} is reserved`);
+    }
+    StructureRegistry._factories.set(type, factory);
+  }
+
+  static get(type: number): StructureFactory | undefined {
+    return StructureRegistry._factories.get(type);
+  }
+}
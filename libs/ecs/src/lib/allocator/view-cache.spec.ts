@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { Allocator } from './allocator';
+import { ViewCache } from './view-cache';
+
+describe('ViewCache', () => {
+  it('should rebuild its view after the buffer grows', () => {
+    const allocator = new Allocator(1024);
+    const block = allocator.allocate(16);
+    const cache = new ViewCache(allocator, (buffer) => new Uint8Array(buffer, block.offset, 16));
+    const before = cache.view;
+    expect(cache.view).toBe(before);
+
+    allocator.allocate(4096);
+    before[0] = 1;
+
+    expect(cache.view).not.toBe(before);
+    expect(cache.view.buffer).toBe(allocator.buffer);
+    expect(cache.view[0]).toBe(0);
+  });
+
+  it('should stop rebuilding once disposed', () => {
+    const allocator = new Allocator(1024);
+    let builds = 0;
+    const cache = new ViewCache(allocator, (buffer) => {
+      builds++;
+      return new Uint8Array(buffer);
+    });
+    void cache.view;
+    cache.dispose();
+    allocator.allocate(4096);
+
+    expect(builds).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { Allocator } from './allocator';
+
+/**
+ * Keeps a view over an allocator's buffer, rebuilt on first access after the
+ * buffer was replaced. Call `invalidate` when the viewed range itself changed,
+ * e.g. after the block moved or its length changed.
+ */
+export class ViewCache<T extends ArrayBufferView> {
+  private _view?: T;
+  private readonly _unsubscribe: () => void;
+
+  public get view(): T {
+    if (!this._view) {
+      this._view = this._create(this._allocator.buffer);
+    }
+    return this._view;
+  }
+
+  constructor(
+    private readonly _allocator: Allocator,
+    private readonly _create: (buffer: ArrayBufferLike) => T
+  ) {
+    this._unsubscribe = this._allocator.onBufferChanged(() => this.invalidate());
+  }
+
+  public invalidate() {
+    this._view = undefined;
+  }
+
+  /** Stops listening to the allocator, the cache must not be used afterwards */
+  public dispose() {
+    this._unsubscribe();
+    this._view = undefined;
+  }
+}
@@ -0,0 +1,45 @@
+import { Allocator } from '../allocator/allocator';
+import { defineComponent } from '../component/component';
+import { makeEntity } from '../world/entity';
+import { Archetype } from './archetype';
+import { ComponentMask } from './component-mask';
+
+const Position = defineComponent('Position', { x: 'f32', y: 'f32' });
+const Health = defineComponent('Health', { hp: 'u16' });
+
+describe('Archetype', () => {
+  it('should store each component field in its own column', () => {
+    const archetype = new Archetype(new Allocator(1024), 1, ComponentMask.from([0, 1]), [Position, Health]);
+    const row = archetype.addRow(makeEntity(0, 0));
+    archetype.write(row, Position, { x: 1.5, y: -2 });
+    archetype.write(row, Health, { hp: 100 });
+
+    expect(archetype.column(Position, 'x').get(row)).toBe(1.5);
+    expect(archetype.read(row, Health)).toEqual({ hp: 100 });
+  });
+
+  it('should swap the last row into removed rows', () => {
+    const archetype = new Archetype(new Allocator(1024), 1, ComponentMask.from([0]), [Position], 2);
+    for (let i = 0; i < 3; i++) {
+      archetype.write(archetype.addRow(makeEntity(i, 0)), Position, { x: i });
+    }
+
+    expect(archetype.removeRow(0)).toBe(makeEntity(2, 0));
+    expect(archetype.removeRow(1)).toBeUndefined();
+    expect(archetype.length).toBe(1);
+    expect(archetype.read(0, Position)).toEqual({ x: 2, y: 0 });
+  });
+
+  it('should copy shared fields into another archetype', () => {
+    const allocator = new Allocator(1024);
+    const source = new Archetype(allocator, 1, ComponentMask.from([0, 1]), [Position, Health]);
+    const target = new Archetype(allocator, 2, ComponentMask.from([0]), [Position]);
+    const row = source.addRow(makeEntity(0, 0));
+    source.write(row, Position, { x: 3, y: 4 });
+
+    const targetRow = source.copyRow(row, target);
+    expect(target.entities.get(targetRow)).toBe(makeEntity(0, 0));
+    expect(target.read(targetRow, Position)).toEqual({ x: 3, y: 4 });
+    expect(() => target.column(Health, 'hp')).toThrow('has no column Health.hp');
+  });
+});
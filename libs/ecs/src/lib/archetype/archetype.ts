@@ -0,0 +1,144 @@
+import { Allocator } from '../allocator/allocator';
+import { Column } from '../allocator/structures/column/column';
+import { ElementType } from '../allocator/structures/element-type';
+import { ComponentData, ComponentSchema, ComponentType } from '../component/component';
+import { Entity } from '../world/entity';
+import { ComponentMask } from './component-mask';
+
+export type AccessMode = 'read' | 'write';
+
+/** Told about every component read or write, used to check the access systems declare */
+export type AccessMonitor = (type: ComponentType, mode: AccessMode) => void;
+
+/** Structure IDs of the columns backing an archetype, component columns in `types` and field order */
+export interface ArchetypeLayout {
+  readonly entities: number;
+  readonly columns: ReadonlyArray<number>;
+}
+
+/**
+ * Table of all entities sharing the same component set. Every component field
+ * is a column and every entity is a row, so all columns stay the same length.
+ */
+export class Archetype {
+  private readonly _entities: Column;
+  private readonly _columns = new Map<ComponentType, Map<string, Column>>();
+
+  /** Cached transitions to the archetype with one component added or removed */
+  public readonly edges = new Map<ComponentType, { add?: Archetype; remove?: Archetype }>();
+
+  /** Sees `read` and `write` calls, direct column access is not monitored */
+  public monitor?: AccessMonitor;
+
+  public get length() {
+    return this._entities.length;
+  }
+
+  /** Entity of every row, parallel to the component columns */
+  public get entities(): Column {
+    return this._entities;
+  }
+
+  constructor(
+    private readonly _allocator: Allocator,
+    public readonly id: number,
+    public readonly mask: ComponentMask,
+    public readonly types: ReadonlyArray<ComponentType>,
+    initialCapacity = 16,
+    existing?: ArchetypeLayout
+  ) {
+    // Reloaded columns were already recreated by the allocator
+    const column = (type: ElementType, id?: number) =>
+      id === undefined ? new Column(this._allocator, type, initialCapacity) : this._allocator.getStructure<Column>(id);
+    this._entities = column('u32', existing?.entities);
+    let index = 0;
+    for (const type of types) {
+      const fields = new Map<string, Column>();
+      for (const field of type.fields) {
+        fields.set(field, column(type.schema[field], existing?.columns[index++]));
+      }
+      this._columns.set(type, fields);
+    }
+  }
+
+  /** Where the entity and component columns live, pass it back to the constructor to reattach */
+  public layout(): ArchetypeLayout {
+    const columns: number[] = [];
+    for (const fields of this._columns.values()) {
+      for (const column of fields.values()) {
+        columns.push(column.__ID);
+      }
+    }
+    return { entities: this._entities.__ID, columns };
+  }
+
+  public has(type: ComponentType): boolean {
+    return this._columns.has(type);
+  }
+
+  public column<S extends ComponentSchema>(type: ComponentType<S>, field: keyof S & string): Column {
+    const column = this._columns.get(type)?.get(field);
+    if (!column) {
+      throw new Error(`Archetype ${this.id} has no column ${type.name}.${field}`);
+    }
+    return column;
+  }
+
+  /** Appends a zeroed row for the entity and returns its index */
+  public addRow(entity: Entity): number {
+    const row = this._entities.length;
+    this._entities.push(entity);
+    for (const fields of this._columns.values()) {
+      for (const column of fields.values()) {
+        column.push(0);
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Removes a row by moving the last row into its place.
+   * Returns the entity that now occupies `row`, if any moved.
+   */
+  public removeRow(row: number): Entity | undefined {
+    const last = this._entities.length - 1;
+    const moved = row !== last ? this._entities.get(last) : undefined;
+    this._entities.swapRemove(row);
+    for (const fields of this._columns.values()) {
+      for (const column of fields.values()) {
+        column.swapRemove(row);
+      }
+    }
+    return moved;
+  }
+
+  /** Copies the row into `target`, keeping the fields both archetypes share, and returns the new row */
+  public copyRow(row: number, target: Archetype): number {
+    const targetRow = target.addRow(this._entities.get(row));
+    for (const [type, fields] of this._columns) {
+      const targetFields = target._columns.get(type);
+      if (!targetFields) continue;
+      for (const [field, column] of fields) {
+        targetFields.get(field)?.set(targetRow, column.get(row));
+      }
+    }
+    return targetRow;
+  }
+
+  public read<S extends ComponentSchema>(row: number, type: ComponentType<S>): ComponentData<S> {
+    this.monitor?.(type, 'read');
+    const data = {} as ComponentData<S>;
+    for (const field of type.fields) {
+      data[field] = this.column(type, field).get(row);
+    }
+    return data;
+  }
+
+  public write<S extends ComponentSchema>(row: number, type: ComponentType<S>, values: Partial<ComponentData<S>>) {
+    this.monitor?.(type, 'write');
+    for (const field of type.fields) {
+      const value = values[field];
+      if (value !== undefined) this.column(type, field).set(row, value);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { ComponentMask } from './component-mask';
+
+describe('ComponentMask', () => {
+  it('should set and clear bits across words', () => {
+    const mask = ComponentMask.from([1, 40]);
+    expect(mask.has(1)).toBe(true);
+    expect(mask.has(40)).toBe(true);
+    expect(mask.has(2)).toBe(false);
+    expect(mask.ids()).toEqual([1, 40]);
+    expect(mask.without(40).has(40)).toBe(false);
+  });
+
+  it('should produce equal keys for equal sets', () => {
+    expect(ComponentMask.from([3, 1]).key).toBe(ComponentMask.from([1, 3]).key);
+    expect(ComponentMask.from([1, 40]).without(40).key).toBe(ComponentMask.from([1]).key);
+    expect(ComponentMask.from([31]).without(31).isEmpty).toBe(true);
+  });
+
+  it('should test containment and intersection', () => {
+    const mask = ComponentMask.from([0, 2, 33]);
+    expect(mask.containsAll(ComponentMask.from([0, 33]))).toBe(true);
+    expect(mask.containsAll(ComponentMask.from([1]))).toBe(false);
+    expect(mask.containsAll(ComponentMask.EMPTY)).toBe(true);
+    expect(mask.intersects(ComponentMask.from([5, 33]))).toBe(true);
+    expect(mask.intersects(ComponentMask.from([64]))).toBe(false);
+  });
+});
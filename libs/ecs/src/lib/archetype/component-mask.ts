@@ -0,0 +1,64 @@
+/**
+ * Immutable bit set of component IDs. Used as the identity of an archetype
+ * and for matching archetypes against queries.
+ */
+export class ComponentMask {
+  private constructor(private readonly _words: ReadonlyArray<number>) {}
+
+  static readonly EMPTY = new ComponentMask([]);
+
+  static from(ids: Iterable<number>): ComponentMask {
+    let mask = ComponentMask.EMPTY;
+    for (const id of ids) {
+      mask = mask.with(id);
+    }
+    return mask;
+  }
+
+  /** Stable string form, suitable as a map key */
+  public get key(): string {
+    return this._words.join(',');
+  }
+
+  public get isEmpty(): boolean {
+    return this._words.length === 0;
+  }
+
+  public has(id: number): boolean {
+    return ((this._words[id >>> 5] ?? 0) & (1 << (id & 31))) !== 0;
+  }
+
+  public with(id: number): ComponentMask {
+    const words = this._words.slice();
+    while (words.length <= id >>> 5) words.push(0);
+    words[id >>> 5] |= 1 << (id & 31);
+    return new ComponentMask(words);
+  }
+
+  public without(id: number): ComponentMask {
+    if (!this.has(id)) return this;
+    const words = this._words.slice();
+    words[id >>> 5] &= ~(1 << (id & 31));
+    // Trailing zero words are dropped so equal sets always share a key
+    while (words.length > 0 && words[words.length - 1] === 0) words.pop();
+    return new ComponentMask(words);
+  }
+
+  public containsAll(other: ComponentMask): boolean {
+    return other._words.every((word, i) => ((this._words[i] ?? 0) & word) === word);
+  }
+
+  public intersects(other: ComponentMask): boolean {
+    return other._words.some((word, i) => ((this._words[i] ?? 0) & word) !== 0);
+  }
+
+  public ids(): number[] {
+    const ids: number[] = [];
+    this._words.forEach((word, i) => {
+      for (let bit = 0; bit < 32; bit++) {
+        if (word & (1 << bit)) ids.push(i * 32 + bit);
+      }
+    });
+    return ids;
+  }
+}
@@ -0,0 +1,110 @@
+import { Allocator } from '../allocator/allocator';
+import { defineComponent } from '../component/component';
+import { World } from '../world/world';
+import { Commands } from './commands';
+
+const Position = defineComponent('Position', { x: 'f32', y: 'f32' });
+const Health = defineComponent('Health', { hp: 'u16', regen: 'i8' });
+const Frozen = defineComponent('Frozen');
+
+describe('Commands', () => {
+  it('should defer structural changes until applied', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world);
+    const entity = world.createEntity();
+    commands.addComponent(entity, Position, { x: 1.5, y: -2 });
+
+    expect(world.hasComponent(entity, Position)).toBe(false);
+    commands.apply();
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1.5, y: -2 });
+    expect(commands.isEmpty).toBe(true);
+  });
+
+  it('should resolve placeholder entities on apply', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world);
+    const first = commands.spawn();
+    const second = commands.spawn();
+    commands.addComponent(second, Health, { hp: 50, regen: -1 });
+    commands.addComponent(first, Frozen);
+
+    expect(Commands.isPending(first)).toBe(true);
+    commands.apply();
+
+    const [spawned] = world.query(Health).entities();
+    expect(world.getComponent(spawned, Health)).toEqual({ hp: 50, regen: -1 });
+    expect(world.query(Frozen).count).toBe(1);
+    expect(world.entityCount).toBe(2);
+  });
+
+  it('should despawn and remove components while a query is iterated', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world);
+    for (let i = 0; i < 4; i++) {
+      const entity = world.createEntity();
+      world.addComponent(entity, Position, { x: i });
+      world.addComponent(entity, Frozen);
+    }
+
+    world.query(Position).forEach((entity, archetype, row) => {
+      if (archetype.column(Position, 'x').get(row) % 2 === 0) commands.despawn(entity);
+      else commands.removeComponent(entity, Frozen);
+    });
+    commands.apply();
+
+    expect(world.query(Position).count).toBe(2);
+    expect(world.query(Frozen).count).toBe(0);
+  });
+
+  it('should only set the recorded fields', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world);
+    const entity = world.createEntity();
+    world.addComponent(entity, Position, { x: 1, y: 2 });
+    commands.setComponent(entity, Position, { y: 5 });
+    commands.apply();
+
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1, y: 5 });
+  });
+
+  it('should grow the byte stream', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world, 16);
+    for (let i = 0; i < 100; i++) {
+      commands.addComponent(commands.spawn(), Position, { x: i, y: i });
+    }
+    commands.apply();
+
+    expect(world.query(Position).count).toBe(100);
+  });
+
+  it('should take back the commands recorded at a rewound checkpoint', () => {
+    const allocator = new Allocator(4096);
+    const world = new World(allocator);
+    const commands = new Commands(world);
+    const spawned = commands.spawn();
+    const checkpoint = allocator.checkpoint();
+    const later = new Commands(world);
+    commands.addComponent(commands.spawn(), Frozen);
+    later.spawn();
+
+    allocator.rewind(checkpoint);
+    commands.addComponent(spawned, Health, { hp: 3 });
+    expect(commands.spawn()).toBe(-2);
+    commands.apply();
+    later.apply();
+
+    expect(world.entityCount).toBe(2);
+    expect(world.query(Health).count).toBe(1);
+    expect(world.query(Frozen).count).toBe(0);
+  });
+
+  it('should reject placeholders from an already applied buffer', () => {
+    const world = new World(new Allocator(4096));
+    const commands = new Commands(world);
+    const pending = commands.spawn();
+    commands.apply();
+
+    expect(() => commands.despawn(pending)).toThrow('Unknown pending entity');
+  });
+});
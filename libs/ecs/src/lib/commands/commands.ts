@@ -0,0 +1,259 @@
+import { MemoryBlockRef } from '../allocator/allocator';
+import { ELEMENT_TYPES } from '../allocator/structures/element-type';
+import { IFixedStruct } from '../allocator/structures/structures.types';
+import { ComponentData, ComponentSchema, ComponentType } from '../component/component';
+import { Entity } from '../world/entity';
+import { World } from '../world/world';
+
+const OP_SPAWN = 1;
+const OP_DESPAWN = 2;
+const OP_ADD = 3;
+const OP_REMOVE = 4;
+const OP_SET = 5;
+
+// Entity references are a kind byte followed by a u32
+const REF_ENTITY = 0;
+const REF_PENDING = 1;
+
+// Block header: length, capacity and pending spawn count
+const METADATA_SIZE = 12;
+
+/**
+ * Records structural changes into an allocator-backed byte stream so they can
+ * be applied once no query is being iterated. `spawn` returns a placeholder
+ * entity that later commands in the same buffer may refer to.
+ */
+export class Commands implements IFixedStruct {
+  private _block: MemoryBlockRef;
+  private _length = 0;
+  private _capacity: number;
+  private _pending = 0;
+  private __ID: number;
+
+  /** Number of recorded bytes */
+  public get length() {
+    return this._length;
+  }
+
+  public get isEmpty() {
+    return this._length === 0;
+  }
+
+  constructor(
+    private readonly _world: World,
+    private readonly _initialCapacity = 256
+  ) {
+    this._capacity = Math.max(this._initialCapacity, 16);
+    this._block = this._world.allocator.allocate(METADATA_SIZE + this._capacity);
+    // Untyped, only so compaction moves the stream with its block
+    this.__ID = this._world.allocator.registerStructure(this, { offset: this._block.offset });
+    this.saveMetadata();
+    this._world.allocator.onRewind(() => this.rewound());
+  }
+
+  /** Placeholders are negative so they never collide with real entity IDs */
+  static isPending(entity: Entity): boolean {
+    return entity < 0;
+  }
+
+  public spawn(): Entity {
+    this.writeUint8(OP_SPAWN);
+    const placeholder = -++this._pending;
+    this.saveMetadata();
+    return placeholder;
+  }
+
+  public despawn(entity: Entity) {
+    this.writeUint8(OP_DESPAWN);
+    this.writeEntity(entity);
+    this.saveMetadata();
+  }
+
+  public addComponent<S extends ComponentSchema>(entity: Entity, type: ComponentType<S>, values: Partial<ComponentData<S>> = {}) {
+    this.writeUint8(OP_ADD);
+    this.writeEntity(entity);
+    this.writeComponent(type, values);
+    this.saveMetadata();
+  }
+
+  public removeComponent(entity: Entity, type: ComponentType) {
+    this.writeUint8(OP_REMOVE);
+    this.writeEntity(entity);
+    this.writeUint32(this._world.componentId(type));
+    this.saveMetadata();
+  }
+
+  public setComponent<S extends ComponentSchema>(entity: Entity, type: ComponentType<S>, values: Partial<ComponentData<S>>) {
+    this.writeUint8(OP_SET);
+    this.writeEntity(entity);
+    this.writeComponent(type, values);
+    this.saveMetadata();
+  }
+
+  /** Replays every recorded command against the world and empties the buffer */
+  public apply() {
+    const spawned: Entity[] = [];
+    let cursor = 0;
+
+    const readUint8 = () => this._world.allocator.view.getUint8(this._block.offset + METADATA_SIZE + cursor++);
+    const readUint32 = () => {
+      const value = this._world.allocator.view.getUint32(this._block.offset + METADATA_SIZE + cursor);
+      cursor += 4;
+      return value;
+    };
+    const readEntity = (): Entity => {
+      const kind = readUint8();
+      const value = readUint32();
+      return kind === REF_PENDING ? spawned[value] : value;
+    };
+    const readComponent = (): [ComponentType, Record<string, number>] => {
+      const type = this._world.componentType(readUint32());
+      const present = readUint32();
+      const values: Record<string, number> = {};
+      type.fields.forEach((field, i) => {
+        if ((present & (1 << i)) === 0) return;
+        const element = ELEMENT_TYPES[type.schema[field]];
+        values[field] = element.get(this._world.allocator.view, this._block.offset + METADATA_SIZE + cursor);
+        cursor += element.size;
+      });
+      return [type, values];
+    };
+
+    try {
+      while (cursor < this._length) {
+        const op = readUint8();
+        switch (op) {
+          case OP_SPAWN:
+            spawned.push(this._world.createEntity());
+            break;
+          case OP_DESPAWN:
+            this._world.destroyEntity(readEntity());
+            break;
+          case OP_ADD: {
+            const entity = readEntity();
+            const [type, values] = readComponent();
+            this._world.addComponent(entity, type, values);
+            break;
+          }
+          case OP_REMOVE: {
+            const entity = readEntity();
+            this._world.removeComponent(entity, this._world.componentType(readUint32()));
+            break;
+          }
+          case OP_SET: {
+            const entity = readEntity();
+            const [type, values] = readComponent();
+            this._world.setComponent(entity, type, values);
+            break;
+          }
+          default:
+            throw new Error(`Unknown command ${op} at byte ${cursor - 1}`);
+        }
+      }
+    } finally {
+      this.clear();
+    }
+  }
+
+  public clear() {
+    this._length = 0;
+    this._pending = 0;
+    this.saveMetadata();
+  }
+
+  /** Commands in progress are not saved yet, only the block moves */
+  public restore(offset: number) {
+    this._block = new MemoryBlockRef(offset, this._block.size);
+  }
+
+  public destroy() {
+    this._world.allocator.unregisterStructure(this.__ID);
+    this._world.allocator.free(this._block);
+  }
+
+  private saveMetadata() {
+    this._world.allocator.view.setUint32(this._block.offset, this._length);
+    this._world.allocator.view.setUint32(this._block.offset + 4, this._capacity);
+    this._world.allocator.view.setUint32(this._block.offset + 8, this._pending);
+  }
+
+  /** Takes the commands recorded at the checkpoint back, or starts empty when the block is younger */
+  private rewound() {
+    const allocator = this._world.allocator;
+    if (!allocator.hasStructure(this.__ID)) {
+      this._length = 0;
+      this._pending = 0;
+      this._block = allocator.allocate(METADATA_SIZE + this._capacity);
+      this.__ID = allocator.registerStructure(this, { offset: this._block.offset });
+      this.saveMetadata();
+      return;
+    }
+    this._length = allocator.view.getUint32(this._block.offset);
+    this._capacity = allocator.view.getUint32(this._block.offset + 4);
+    this._pending = allocator.view.getUint32(this._block.offset + 8);
+    this._block = new MemoryBlockRef(this._block.offset, METADATA_SIZE + this._capacity);
+  }
+
+  private writeEntity(entity: Entity) {
+    if (Commands.isPending(entity)) {
+      if (-entity > this._pending) {
+        throw new Error(`Unknown pending entity ${entity}`);
+      }
+      this.writeUint8(REF_PENDING);
+      this.writeUint32(-entity - 1);
+    } else {
+      this.writeUint8(REF_ENTITY);
+      this.writeUint32(entity);
+    }
+  }
+
+  private writeComponent<S extends ComponentSchema>(type: ComponentType<S>, values: Partial<ComponentData<S>>) {
+    if (type.fields.length > 32) {
+      throw new Error(`Component ${type.name} has too many fields to record`);
+    }
+
+    let present = 0;
+    type.fields.forEach((field, i) => {
+      if (values[field] !== undefined) present |= 1 << i;
+    });
+    this.writeUint32(this._world.componentId(type));
+    this.writeUint32(present >>> 0);
+    for (const field of type.fields) {
+      const value = values[field];
+      if (value === undefined) continue;
+      const element = ELEMENT_TYPES[type.schema[field]];
+      this.reserve(element.size);
+      element.set(this._world.allocator.view, this._block.offset + METADATA_SIZE + this._length, value);
+      this._length += element.size;
+    }
+  }
+
+  private writeUint8(value: number) {
+    this.reserve(1);
+    this._world.allocator.view.setUint8(this._block.offset + METADATA_SIZE + this._length, value);
+    this._length += 1;
+  }
+
+  private writeUint32(value: number) {
+    this.reserve(4);
+    this._world.allocator.view.setUint32(this._block.offset + METADATA_SIZE + this._length, value);
+    this._length += 4;
+  }
+
+  private reserve(size: number) {
+    if (this._length + size <= this._capacity) return;
+
+    let newCapacity = this._capacity * 2;
+    while (newCapacity < this._length + size) newCapacity *= 2;
+    const allocator = this._world.allocator;
+    const newBlock = allocator.allocate(METADATA_SIZE + newCapacity);
+    new Uint8Array(allocator.buffer, newBlock.offset + METADATA_SIZE, this._length).set(
+      new Uint8Array(allocator.buffer, this._block.offset + METADATA_SIZE, this._length)
+    );
+
+    allocator.free(this._block);
+    this._capacity = newCapacity;
+    this._block = newBlock;
+    allocator.relocateStructure(this.__ID, newBlock.offset);
+  }
+}
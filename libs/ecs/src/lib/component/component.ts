@@ -0,0 +1,24 @@
+import { ElementType } from '../allocator/structures/element-type';
+
+export type ComponentSchema = Record<string, ElementType>;
+
+export type ComponentData<S extends ComponentSchema> = { [K in keyof S]: number };
+
+export class ComponentType<S extends ComponentSchema = ComponentSchema> {
+  public readonly fields: ReadonlyArray<keyof S & string>;
+
+  constructor(
+    public readonly name: string,
+    public readonly schema: Readonly<S>
+  ) {
+    this.fields = Object.keys(schema);
+  }
+}
+
+/**
+ * Declares a component from a field schema, e.g. `defineComponent('Position', { x: 'f32', y: 'f32' })`.
+ * An empty schema declares a tag component that carries no data.
+ */
+export function defineComponent<S extends ComponentSchema>(name: string, schema: S = {} as S): ComponentType<S> {
+  return new ComponentType<S>(name, schema);
+}
@@ -0,0 +1,31 @@
+export * from './allocator/allocator';
+export * from './allocator/debug-allocator';
+export * from './allocator/buffer-format';
+export * from './allocator/buffer-delta';
+export * from './allocator/checkpoint-ring';
+export * from './allocator/endian-view';
+export * from './allocator/legacy-format';
+export * from './allocator/growth-policy';
+export * from './allocator/view-cache';
+export * from './allocator/strategies/allocation-strategy';
+export * from './allocator/strategies/first-fit';
+export * from './allocator/strategies/best-fit';
+export * from './allocator/strategies/segregated-fit';
+export * from './allocator/structures/structures.types';
+export * from './allocator/structures/structure-registry';
+export * from './allocator/structures/element-type';
+export * from './allocator/structures/resazible-array/resizable-array';
+export * from './allocator/structures/column/column';
+export * from './component/component';
+export * from './archetype/component-mask';
+export * from './archetype/archetype';
+export * from './query/query';
+export * from './query/query-filter';
+export * from './world/entity';
+export * from './world/world';
+export * from './world/resource';
+export * from './world/world-snapshot';
+export * from './commands/commands';
+export * from './scheduler/scheduler';
+export * from './scheduler/system-access';
+export * from './scheduler/worker-pool';
@@ -0,0 +1,38 @@
+import { ComponentType } from '../component/component';
+
+export type QueryFilterKind = 'with' | 'without' | 'or' | 'optional';
+
+export class QueryFilter {
+  constructor(
+    public readonly kind: QueryFilterKind,
+    public readonly types: ReadonlyArray<ComponentType>
+  ) {}
+}
+
+/** A query term is either a required component or a filter wrapping components */
+export type QueryTerm = ComponentType | QueryFilter;
+
+/** Requires the components without reading them, typically for tags */
+export function With(...types: ComponentType[]): QueryFilter {
+  return new QueryFilter('with', types);
+}
+
+/** Excludes entities having any of the components */
+export function Without(...types: ComponentType[]): QueryFilter {
+  return new QueryFilter('without', types);
+}
+
+/** Alias of `Without` */
+export function Not(...types: ComponentType[]): QueryFilter {
+  return Without(...types);
+}
+
+/** Requires at least one of the components */
+export function Or(...types: ComponentType[]): QueryFilter {
+  return new QueryFilter('or', types);
+}
+
+/** Does not affect matching, check `archetype.has` before reading the component */
+export function Optional(...types: ComponentType[]): QueryFilter {
+  return new QueryFilter('optional', types);
+}
@@ -0,0 +1,98 @@
+import { Allocator } from '../allocator/allocator';
+import { ComponentType, defineComponent } from '../component/component';
+import { World } from '../world/world';
+import { Not, Optional, Or, With, Without } from './query-filter';
+
+const Position = defineComponent('Position', { x: 'f32', y: 'f32' });
+const Velocity = defineComponent('Velocity', { x: 'f32', y: 'f32' });
+const Frozen = defineComponent('Frozen');
+const Player = defineComponent('Player');
+const Npc = defineComponent('Npc');
+const Sprite = defineComponent('Sprite', { frame: 'u16' });
+
+describe('Query', () => {
+  it('should pick up archetypes created after the query', () => {
+    const world = new World(new Allocator(4096));
+    const query = world.query(Position, Velocity);
+    expect(query.archetypes.length).toBe(0);
+
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    world.addComponent(entity, Velocity);
+
+    expect(query.archetypes.length).toBe(1);
+    expect(query.entities()).toEqual([entity]);
+  });
+
+  it('should visit every matching row', () => {
+    const world = new World(new Allocator(4096));
+    for (let i = 0; i < 4; i++) {
+      const entity = world.createEntity();
+      world.addComponent(entity, Position, { x: i, y: 0 });
+      world.addComponent(entity, Velocity, { x: 1, y: 2 });
+    }
+
+    world.query(Position, Velocity).forEach((entity, archetype, row) => {
+      const x = archetype.column(Position, 'x');
+      x.set(row, x.get(row) + archetype.column(Velocity, 'x').get(row));
+    });
+
+    expect(world.query(Position).entities().map((entity) => world.getComponent(entity, Position).x)).toEqual([1, 2, 3, 4]);
+  });
+
+  describe('filters', () => {
+    const spawn = (world: World, ...types: ComponentType[]) => {
+      const entity = world.createEntity();
+      types.forEach((type) => world.addComponent(entity, type));
+      return entity;
+    };
+
+    it('should exclude entities with Not and Without', () => {
+      const world = new World(new Allocator(4096));
+      const moving = spawn(world, Position);
+      spawn(world, Position, Frozen);
+
+      expect(world.query(Position, Not(Frozen)).entities()).toEqual([moving]);
+      expect(world.query(Position, Without(Frozen))).toBe(world.query(Position, Not(Frozen)));
+    });
+
+    it('should require one of the components with Or', () => {
+      const world = new World(new Allocator(4096));
+      const player = spawn(world, Position, Player);
+      const npc = spawn(world, Position, Npc);
+      spawn(world, Position);
+
+      expect(world.query(Position, Or(Player, Npc)).entities().sort()).toEqual([player, npc].sort());
+    });
+
+    it('should match with and without Optional components', () => {
+      const world = new World(new Allocator(4096));
+      const plain = spawn(world, Position);
+      const sprited = spawn(world, Position, Sprite);
+      const query = world.query(Position, Optional(Sprite));
+
+      expect(query.entities().sort()).toEqual([plain, sprited].sort());
+      expect(query.archetypes.filter((archetype) => archetype.has(Sprite)).length).toBe(1);
+    });
+
+    it('should require tags with With', () => {
+      const world = new World(new Allocator(4096));
+      const player = spawn(world, Position, Player);
+      spawn(world, Position);
+
+      expect(world.query(Position, With(Player)).entities()).toEqual([player]);
+    });
+
+    it('should only re-match when a new archetype appears', () => {
+      const world = new World(new Allocator(4096));
+      const query = world.query(Position, Not(Frozen));
+      const matches = vi.spyOn(query, 'matches');
+
+      spawn(world, Position);
+      expect(matches).toHaveBeenCalledTimes(1);
+      spawn(world, Position);
+      query.entities();
+      expect(matches).toHaveBeenCalledTimes(1);
+    });
+  });
+});
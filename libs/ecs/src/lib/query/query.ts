@@ -0,0 +1,81 @@
+import { Archetype } from '../archetype/archetype';
+import { ComponentMask } from '../archetype/component-mask';
+import { Entity } from '../world/entity';
+
+export interface QueryMasks {
+  /** Components every matched archetype has */
+  readonly all: ComponentMask;
+  /** Components no matched archetype has */
+  readonly none: ComponentMask;
+  /** Groups of which every matched archetype has at least one component */
+  readonly any: ReadonlyArray<ComponentMask>;
+  /** Components that may be read when present, they do not affect matching */
+  readonly optional: ComponentMask;
+}
+
+/**
+ * Live set of archetypes matching the query masks. Matching happens once per
+ * archetype when it is created, iteration only walks the matched tables.
+ */
+export class Query {
+  private readonly _archetypes: Archetype[] = [];
+
+  public get archetypes(): ReadonlyArray<Archetype> {
+    return this._archetypes;
+  }
+
+  /** Number of entities currently matching the query */
+  public get count(): number {
+    let count = 0;
+    for (const archetype of this._archetypes) {
+      count += archetype.length;
+    }
+    return count;
+  }
+
+  constructor(public readonly masks: QueryMasks) {}
+
+  /** Identity of a query, equal masks share one cached query */
+  static key(masks: QueryMasks): string {
+    return [masks.all.key, masks.none.key, masks.any.map((mask) => mask.key).join(';'), masks.optional.key].join('|');
+  }
+
+  public matches(archetype: Archetype): boolean {
+    const { all, none, any } = this.masks;
+    return (
+      archetype.mask.containsAll(all) &&
+      !archetype.mask.intersects(none) &&
+      any.every((mask) => archetype.mask.intersects(mask))
+    );
+  }
+
+  /** Called by the world for every archetype, existing or newly created */
+  public track(archetype: Archetype) {
+    if (this.matches(archetype)) {
+      this._archetypes.push(archetype);
+    }
+  }
+
+  /** Called by the world for archetypes it dropped, e.g. when the allocator rewinds */
+  public untrack(archetype: Archetype) {
+    const index = this._archetypes.indexOf(archetype);
+    if (index !== -1) {
+      this._archetypes.splice(index, 1);
+    }
+  }
+
+  public forEach(callback: (entity: Entity, archetype: Archetype, row: number) => void) {
+    for (const archetype of this._archetypes) {
+      const entities = archetype.entities;
+      for (let row = 0; row < archetype.length; row++) {
+        callback(entities.get(row), archetype, row);
+      }
+    }
+  }
+
+  public entities(): Entity[] {
+    const entities: Entity[] = [];
+    this.forEach((entity) => entities.push(entity));
+    return entities;
+  }
+}
@@ -0,0 +1,201 @@
+import { Allocator } from '../allocator/allocator';
+import { defineComponent } from '../component/component';
+import { World } from '../world/world';
+import { Scheduler } from './scheduler';
+import { AccessViolation } from './system-access';
+
+describe('Scheduler', () => {
+  const setup = () => {
+    const calls: string[] = [];
+    const scheduler = new Scheduler(new World(new Allocator(1024)));
+    const record = (name: string) => () => calls.push(name);
+    return { calls, scheduler, record };
+  };
+
+  it('should run phases in order and startup only once', () => {
+    const { calls, scheduler, record } = setup();
+    scheduler
+      .addSystem('draw', record('draw'), { phase: 'render' })
+      .addSystem('move', record('move'))
+      .addSystem('init', record('init'), { phase: 'startup' })
+      .addSystem('input', record('input'), { phase: 'preUpdate' });
+
+    scheduler.update();
+    scheduler.update();
+
+    expect(calls).toEqual(['init', 'input', 'move', 'draw', 'input', 'move', 'draw']);
+    expect(scheduler.tick).toBe(2);
+  });
+
+  it('should honour before and after constraints', () => {
+    const { scheduler, record } = setup();
+    scheduler
+      .addSystem('render-prep', record('render-prep'), { after: ['physics'] })
+      .addSystem('physics', record('physics'), { after: ['input'] })
+      .addSystem('input', record('input'))
+      .addSystem('ai', record('ai'), { before: ['physics'] });
+
+    expect(scheduler.order('update')).toEqual(['input', 'ai', 'physics', 'render-prep']);
+  });
+
+  it('should report ordering cycles', () => {
+    const { scheduler, record } = setup();
+    scheduler
+      .addSystem('a', record('a'), { before: ['b'] })
+      .addSystem('b', record('b'), { before: ['c'] })
+      .addSystem('c', record('c'), { before: ['a'] })
+      .addSystem('d', record('d'), { after: ['c'] });
+
+    expect(() => scheduler.update()).toThrow('System ordering cycle in phase update: a -> b -> c -> a');
+  });
+
+  it('should skip systems whose run condition is false', () => {
+    const { calls, scheduler, record } = setup();
+    let paused = true;
+    scheduler.addSystem('move', record('move'), { runIf: () => !paused });
+
+    scheduler.update();
+    paused = false;
+    scheduler.update();
+
+    expect(calls).toEqual(['move']);
+  });
+
+  it('should pass the world and delta time to systems', () => {
+    const world = new World(new Allocator(1024));
+    const scheduler = new Scheduler(world);
+    const run = vi.fn();
+    scheduler.addSystem('move', run);
+    scheduler.update(16);
+
+    expect(run).toHaveBeenCalledWith(world, 16, scheduler.commands);
+  });
+
+  it('should reject duplicate and unknown systems', () => {
+    const { scheduler, record } = setup();
+    scheduler.addSystem('move', record('move'));
+
+    expect(() => scheduler.addSystem('move', record('move'))).toThrow('System move is already registered');
+    expect(() => scheduler.removeSystem('jump')).toThrow('System jump not found');
+  });
+
+  it('should apply recorded commands between systems', () => {
+    const Marker = defineComponent('Marker');
+    const world = new World(new Allocator(4096));
+    const scheduler = new Scheduler(world);
+    let seen = -1;
+    scheduler
+      .addSystem('spawner', (_, __, commands) => commands.addComponent(commands.spawn(), Marker))
+      .addSystem('counter', (world) => (seen = world.query(Marker).count), { after: ['spawner'] });
+
+    scheduler.update();
+
+    expect(seen).toBe(1);
+    expect(scheduler.commands.isEmpty).toBe(true);
+  });
+
+  describe('declared access', () => {
+    const Position = defineComponent('Position', { x: 'f32' });
+    const Velocity = defineComponent('Velocity', { x: 'f32' });
+    const Health = defineComponent('Health', { value: 'u16' });
+    const noop = () => undefined;
+
+    it('should batch neighbours that do not conflict', () => {
+      const { scheduler } = setup();
+      scheduler
+        .addSystem('move', noop, { reads: [Velocity], writes: [Position] })
+        .addSystem('regen', noop, { writes: [Health] })
+        .addSystem('steer', noop, { writes: [Velocity] })
+        .addSystem('log', noop, { reads: [Health] })
+        .addSystem('anything', noop)
+        .addSystem('damage', noop, { writes: [Health] });
+
+      expect(scheduler.batches('update')).toEqual([['move', 'regen'], ['steer', 'log'], ['anything'], ['damage']]);
+    });
+
+    it('should not batch systems ordered against each other', () => {
+      const { scheduler } = setup();
+      scheduler
+        .addSystem('a', noop, { reads: [Position] })
+        .addSystem('b', noop, { reads: [Position], after: ['a'] })
+        .addSystem('c', noop, { reads: [Health] });
+
+      expect(scheduler.batches('update')).toEqual([['a'], ['b', 'c']]);
+    });
+
+    it('should run batches with updateAsync and apply commands after each batch', async () => {
+      const Marker = defineComponent('Marker');
+      const world = new World(new Allocator(4096));
+      const scheduler = new Scheduler(world);
+      const seen: number[] = [];
+      scheduler
+        .addSystem('spawner', (_, __, commands) => commands.addComponent(commands.spawn(), Marker), { writes: [Marker] })
+        .addSystem('counter', (world) => seen.push(world.query(Health).count), { reads: [Health] })
+        .addSystem('checker', (world) => seen.push(world.query(Marker).count), { reads: [Marker] });
+
+      await scheduler.updateAsync();
+
+      expect(scheduler.batches('update')).toEqual([['spawner', 'counter'], ['checker']]);
+      expect(seen).toEqual([0, 1]);
+      expect(scheduler.tick).toBe(1);
+    });
+
+    it('should report undeclared access in dev mode', () => {
+      const world = new World(new Allocator(4096));
+      const entity = world.createEntity();
+      world.addComponent(entity, Position, { x: 1 });
+      const violations: AccessViolation[] = [];
+      const scheduler = new Scheduler(world, { dev: true, onAccessViolation: (violation) => violations.push(violation) });
+      scheduler.addSystem(
+        'move',
+        (world) => {
+          world.setComponent(entity, Position, { x: world.getComponent(entity, Position).x + 1 });
+          world.addComponent(entity, Health);
+        },
+        { reads: [Position] }
+      );
+
+      scheduler.update();
+
+      expect(violations).toEqual([
+        { system: 'move', component: Position, mode: 'write' },
+        { system: 'move', component: Health, mode: 'write' },
+      ]);
+      expect(world.getComponent(entity, Position).x).toBe(2);
+    });
+
+    it('should report structural changes as writes of every component in both archetypes', () => {
+      const world = new World(new Allocator(4096));
+      const moving = world.createEntity();
+      world.addComponent(moving, Position);
+      world.addComponent(moving, Velocity);
+      const doomed = world.createEntity();
+      world.addComponent(doomed, Health);
+      const violations: AccessViolation[] = [];
+      const onAccessViolation = (violation: AccessViolation) => violations.push(violation);
+      const scheduler = new Scheduler(world, { dev: true, onAccessViolation });
+      scheduler
+        .addSystem('strip', (world) => world.removeComponent(moving, Velocity), { reads: [Position, Velocity] })
+        .addSystem('cull', (world) => world.destroyEntity(doomed), { reads: [Health] });
+
+      scheduler.update();
+
+      expect(violations).toEqual([
+        { system: 'strip', component: Velocity, mode: 'write' },
+        { system: 'strip', component: Position, mode: 'write' },
+        { system: 'cull', component: Health, mode: 'write' },
+      ]);
+    });
+
+    it('should throw on undeclared access by default and stop monitoring afterwards', () => {
+      const world = new World(new Allocator(4096));
+      const entity = world.createEntity();
+      world.addComponent(entity, Position);
+      const scheduler = new Scheduler(world, { dev: true });
+      scheduler.addSystem('peek', (world) => world.getComponent(entity, Position), { reads: [Velocity] });
+
+      expect(() => scheduler.update()).toThrow('System peek reads Position without declaring it');
+      expect(() => world.setComponent(entity, Position, { x: 3 })).not.toThrow();
+    });
+  });
+});
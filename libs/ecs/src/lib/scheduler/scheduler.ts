@@ -0,0 +1,301 @@
+import { AccessMonitor } from '../archetype/archetype';
+import { Commands } from '../commands/commands';
+import { ComponentType } from '../component/component';
+import { World } from '../world/world';
+import { AccessViolation, SystemAccess, accessAllows, accessConflicts } from './system-access';
+import { ColumnLayout, SystemTask, TableLayout, WorkerPool } from './worker-pool';
+
+export type Phase = 'startup' | 'preUpdate' | 'update' | 'postUpdate' | 'render';
+
+/** Phases in execution order, `startup` only runs on the first tick */
+export const PHASES: ReadonlyArray<Phase> = ['startup', 'preUpdate', 'update', 'postUpdate', 'render'];
+
+/** Structural changes should go through `commands`, they are applied after the system returns */
+export type SystemFn = (world: World, dt: number, commands: Commands) => void;
+
+export interface SystemOptions {
+  phase?: Phase;
+  /** Names of systems in the same phase this one must run before */
+  before?: string[];
+  /** Names of systems in the same phase this one must run after */
+  after?: string[];
+  /** The system is skipped for the tick when this returns false */
+  runIf?: (world: World) => boolean;
+  /** Components the system reads, declaring `reads` or `writes` lets it share a batch with systems it does not conflict with */
+  reads?: ComponentType[];
+  /** Components the system writes */
+  writes?: ComponentType[];
+  /** Runs in the worker pool under the same name during `updateAsync`, `run` stays the fallback for `update` */
+  worker?: boolean;
+}
+
+export interface SystemDescriptor extends Required<Pick<SystemOptions, 'phase' | 'before' | 'after'>> {
+  readonly name: string;
+  readonly run: SystemFn;
+  readonly runIf?: (world: World) => boolean;
+  /** Undefined when the system declared neither reads nor writes */
+  readonly access?: SystemAccess;
+  readonly worker: boolean;
+}
+
+export interface SchedulerOptions {
+  /** Runs worker systems in `updateAsync`, without one they run on this thread */
+  pool?: WorkerPool;
+  /** Checks every component access of a system against its declaration */
+  dev?: boolean;
+  /** Called once per system run for each undeclared component access in dev mode, throws by default */
+  onAccessViolation?: (violation: AccessViolation) => void;
+}
+
+export class Scheduler {
+  private readonly _systems = new Map<string, SystemDescriptor>();
+  private readonly _order = new Map<Phase, SystemDescriptor[]>();
+  private readonly _batches = new Map<Phase, SystemDescriptor[][]>();
+  private readonly _commands: Commands;
+  private _tick = 0;
+
+  /** Number of completed `update` calls */
+  public get tick() {
+    return this._tick;
+  }
+
+  /** Command buffer handed to every system and applied at the sync point after it */
+  public get commands(): Commands {
+    return this._commands;
+  }
+
+  constructor(
+    private readonly _world: World,
+    private readonly _options: SchedulerOptions = {}
+  ) {
+    this._commands = new Commands(this._world);
+  }
+
+  public addSystem(name: string, run: SystemFn, options: SystemOptions = {}): this {
+    if (this._systems.has(name)) {
+      throw new Error(`System ${name} is already registered`);
+    }
+
+    this._systems.set(name, {
+      name,
+      run,
+      phase: options.phase ?? 'update',
+      before: options.before ?? [],
+      after: options.after ?? [],
+      runIf: options.runIf,
+      access:
+        options.reads || options.writes ? { reads: options.reads ?? [], writes: options.writes ?? [] } : undefined,
+      worker: options.worker ?? false,
+    });
+    this._order.clear();
+    this._batches.clear();
+    return this;
+  }
+
+  public removeSystem(name: string) {
+    if (!this._systems.delete(name)) {
+      throw new Error(`System ${name} not found`);
+    }
+    this._order.clear();
+    this._batches.clear();
+  }
+
+  /** Names of the systems of a phase in the order they run */
+  public order(phase: Phase): string[] {
+    return this.sorted(phase).map((system) => system.name);
+  }
+
+  /** Names of the systems of a phase grouped into the batches `updateAsync` runs together */
+  public batches(phase: Phase): string[][] {
+    return this.batched(phase).map((batch) => batch.map((system) => system.name));
+  }
+
+  /** Runs one tick: `startup` on the first call, then every other phase in order */
+  public update(dt = 0) {
+    for (const phase of PHASES) {
+      if (phase === 'startup' && this._tick > 0) continue;
+      this.runPhase(phase, dt);
+    }
+    this._tick++;
+  }
+
+  public runPhase(phase: Phase, dt = 0) {
+    for (const system of this.sorted(phase)) {
+      if (system.runIf && !system.runIf(this._world)) continue;
+      this.runSystem(system, dt);
+      if (!this._commands.isEmpty) this._commands.apply();
+    }
+  }
+
+  /**
+   * Like `update`, but worker systems of a batch run in the pool while the
+   * others run here. Commands are applied once the whole batch finished.
+   */
+  public async updateAsync(dt = 0) {
+    for (const phase of PHASES) {
+      if (phase === 'startup' && this._tick > 0) continue;
+      await this.runPhaseAsync(phase, dt);
+    }
+    this._tick++;
+  }
+
+  public async runPhaseAsync(phase: Phase, dt = 0) {
+    const pool = this._options.pool;
+    for (const batch of this.batched(phase)) {
+      const systems = batch.filter((system) => !system.runIf || system.runIf(this._world));
+      const remote = pool ? systems.filter((system) => system.worker) : [];
+      const pending = remote.length > 0 ? pool?.run(remote.map((system) => this.task(system, dt))) : undefined;
+      try {
+        for (const system of systems) {
+          if (!remote.includes(system)) this.runSystem(system, dt);
+        }
+      } finally {
+        await pending;
+      }
+      if (!this._commands.isEmpty) this._commands.apply();
+    }
+  }
+
+  private runSystem(system: SystemDescriptor, dt: number) {
+    const monitor = this._options.dev && system.access ? this.monitor(system.name, system.access) : undefined;
+    if (!monitor) {
+      system.run(this._world, dt, this._commands);
+      return;
+    }
+
+    this._world.monitorAccess(monitor);
+    try {
+      system.run(this._world, dt, this._commands);
+    } finally {
+      this._world.monitorAccess(undefined);
+    }
+  }
+
+  private monitor(name: string, access: SystemAccess): AccessMonitor {
+    const report =
+      this._options.onAccessViolation ??
+      ((violation: AccessViolation) => {
+        throw new Error(`System ${violation.system} ${violation.mode}s ${violation.component.name} without declaring it`);
+      });
+    // Structural changes report every column they move, so each violation is reported once per run
+    const reported = { read: new Set<ComponentType>(), write: new Set<ComponentType>() };
+    return (component, mode) => {
+      if (accessAllows(access, component, mode) || reported[mode].has(component)) return;
+      reported[mode].add(component);
+      report({ system: name, component, mode });
+    };
+  }
+
+  /** Column layout of every archetype holding all the components the system declared */
+  private task(system: SystemDescriptor, dt: number): Omit<SystemTask, 'id'> {
+    const access = system.access ?? { reads: [], writes: [] };
+    const types = [...new Set([...access.reads, ...access.writes])];
+    const tables = this._world.archetypes
+      .filter((archetype) => archetype.length > 0 && types.every((type) => archetype.has(type)))
+      .map((archetype): TableLayout => {
+        const columns: Record<string, ColumnLayout> = {};
+        for (const type of types) {
+          for (const field of type.fields) {
+            columns[`${type.name}.${field}`] = {
+              offset: archetype.column(type, field).offset,
+              type: type.schema[field],
+              write: access.writes.includes(type),
+            };
+          }
+        }
+        return { length: archetype.length, entities: archetype.entities.offset, columns };
+      });
+    return { system: system.name, dt, tables };
+  }
+
+  private batched(phase: Phase): SystemDescriptor[][] {
+    let batches = this._batches.get(phase);
+    if (!batches) {
+      batches = this.batch(this.sorted(phase));
+      this._batches.set(phase, batches);
+    }
+    return batches;
+  }
+
+  /**
+   * Splits the sorted systems into runs of neighbours that declared their access,
+   * do not conflict and have no ordering constraint between them.
+   */
+  private batch(order: SystemDescriptor[]): SystemDescriptor[][] {
+    const constrained = (a: SystemDescriptor, b: SystemDescriptor) =>
+      a.before.includes(b.name) || a.after.includes(b.name) || b.before.includes(a.name) || b.after.includes(a.name);
+    const batches: SystemDescriptor[][] = [];
+    let current: SystemDescriptor[] = [];
+    for (const system of order) {
+      const joins =
+        system.access !== undefined &&
+        current.every((other) => other.access && !accessConflicts(system.access as SystemAccess, other.access) && !constrained(system, other));
+      if (!joins && current.length > 0) {
+        batches.push(current);
+        current = [];
+      }
+      current.push(system);
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  private sorted(phase: Phase): SystemDescriptor[] {
+    let order = this._order.get(phase);
+    if (!order) {
+      order = this.sort(phase);
+      this._order.set(phase, order);
+    }
+    return order;
+  }
+
+  /** Topological sort of a phase, ties keep registration order */
+  private sort(phase: Phase): SystemDescriptor[] {
+    const systems = [...this._systems.values()].filter((system) => system.phase === phase);
+    const names = new Set(systems.map((system) => system.name));
+    const edges = new Map<string, string[]>(systems.map((system) => [system.name, []]));
+    const inDegree = new Map<string, number>(systems.map((system) => [system.name, 0]));
+
+    const addEdge = (from: string, to: string) => {
+      // Constraints on systems of other phases or not registered yet are ignored
+      if (!names.has(from) || !names.has(to)) return;
+      edges.get(from)?.push(to);
+      inDegree.set(to, (inDegree.get(to) ?? 0) + 1);
+    };
+    for (const system of systems) {
+      system.before.forEach((other) => addEdge(system.name, other));
+      system.after.forEach((other) => addEdge(other, system.name));
+    }
+
+    const order: SystemDescriptor[] = [];
+    const pending = [...systems];
+    while (pending.length > 0) {
+      const index = pending.findIndex((system) => inDegree.get(system.name) === 0);
+      if (index === -1) {
+        throw new Error(`System ordering cycle in phase ${phase}: ${this.findCycle(pending, edges).join(' -> ')}`);
+      }
+      const [system] = pending.splice(index, 1);
+      order.push(system);
+      for (const next of edges.get(system.name) ?? []) {
+        inDegree.set(next, (inDegree.get(next) ?? 0) - 1);
+      }
+    }
+    return order;
+  }
+
+  private findCycle(pending: SystemDescriptor[], edges: Map<string, string[]>): string[] {
+    const remaining = pending.map((system) => system.name);
+    const path: string[] = [];
+    let current = remaining[0];
+    // Every remaining system still has a remaining predecessor, so walking them backwards must revisit one
+    while (!path.includes(current)) {
+      path.push(current);
+      current = remaining.find((name) => edges.get(name)?.includes(path[path.length - 1])) ?? current;
+    }
+    const cycle = path.slice(path.indexOf(current)).reverse();
+    // Start the report at the earliest registered system of the cycle
+    const start = cycle.indexOf(remaining.find((name) => cycle.includes(name)) ?? cycle[0]);
+    const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+    return [...rotated, rotated[0]];
+  }
+}
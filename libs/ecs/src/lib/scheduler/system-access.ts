@@ -0,0 +1,25 @@
+import { AccessMode } from '../archetype/archetype';
+import { ComponentType } from '../component/component';
+
+/** Components a system touches. Systems without one may touch anything and always run alone */
+export interface SystemAccess {
+  readonly reads: ReadonlyArray<ComponentType>;
+  readonly writes: ReadonlyArray<ComponentType>;
+}
+
+export interface AccessViolation {
+  readonly system: string;
+  readonly component: ComponentType;
+  readonly mode: AccessMode;
+}
+
+/** Two systems conflict when one writes a component the other reads or writes */
+export function accessConflicts(a: SystemAccess, b: SystemAccess): boolean {
+  const overlaps = (x: ReadonlyArray<ComponentType>, y: ReadonlyArray<ComponentType>) => x.some((type) => y.includes(type));
+  return overlaps(a.writes, b.writes) || overlaps(a.writes, b.reads) || overlaps(b.writes, a.reads);
+}
+
+/** Writing a component implies reading it */
+export function accessAllows(access: SystemAccess, type: ComponentType, mode: AccessMode): boolean {
+  return access.writes.includes(type) || (mode === 'read' && access.reads.includes(type));
+}
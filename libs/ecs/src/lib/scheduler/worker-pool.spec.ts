@@ -0,0 +1,170 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { Allocator } from '../allocator/allocator';
+import { defineComponent } from '../component/component';
+import { World } from '../world/world';
+import { Scheduler } from './scheduler';
+import { WorkerPool, WorkerPort, WorkerSystem, serveSystems } from './worker-pool';
+
+/** Two ends of an in-process channel, messages are delivered asynchronously like real workers */
+function channel(): [WorkerPort, WorkerPort] {
+  const listeners: [((message: unknown) => void)[], ((message: unknown) => void)[]] = [[], []];
+  const end = (index: 0 | 1): WorkerPort => ({
+    postMessage: (message) => queueMicrotask(() => listeners[1 - index].forEach((listener) => listener(message))),
+    onMessage: (listener) => listeners[index].push(listener),
+  });
+  return [end(0), end(1)];
+}
+
+/** Loads the sources with the TypeScript compiler, there is no build step in front of the tests */
+const WORKER_SOURCE = `
+  const fs = require('fs');
+  const ts = require(require('worker_threads').workerData.typescript);
+  require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const options = { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 };
+    module._compile(ts.transpileModule(source, { compilerOptions: options }).outputText, filename);
+  };
+  const { parentPort, workerData } = require('worker_threads');
+  const { serveSystems } = require(workerData.pool);
+  const port = {
+    postMessage: (message) => parentPort.postMessage(message),
+    onMessage: (listener) => parentPort.on('message', listener),
+  };
+  serveSystems(
+    port,
+    {
+      move: (tables, dt) => {
+        for (const table of tables) {
+          for (let row = 0; row < table.length; row++) {
+            table.set('Position.x', row, table.get('Position.x', row) + table.get('Velocity.x', row) * dt);
+          }
+        }
+      },
+    }
+  );
+`;
+
+function spawnWorker(): Worker {
+  return new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { typescript: require.resolve('typescript'), pool: path.join(__dirname, 'worker-pool.ts') },
+  });
+}
+
+describe('WorkerPool', () => {
+  const Position = defineComponent('Position', { x: 'f32', y: 'f32' });
+  const Velocity = defineComponent('Velocity', { x: 'f32', y: 'f32' });
+
+  const setup = (systems: Record<string, WorkerSystem>, workers = 2) => {
+    const allocator = new Allocator(16384, { shared: true });
+    const world = new World(allocator);
+    const ports = Array.from({ length: workers }, () => {
+      const [main, worker] = channel();
+      serveSystems(worker, systems);
+      return main;
+    });
+    const scheduler = new Scheduler(world, { pool: new WorkerPool(ports, allocator) });
+    return { world, scheduler };
+  };
+
+  it('should require a shared allocator and a worker', () => {
+    const [port] = channel();
+
+    expect(() => new WorkerPool([port], new Allocator(1024))).toThrow('A worker pool needs a shared allocator');
+    expect(() => new WorkerPool([], new Allocator(1024, { shared: true }))).toThrow(
+      'A worker pool needs at least one worker'
+    );
+  });
+
+  it('should run worker systems on the shared heap', async () => {
+    const move: WorkerSystem = (tables, dt) => {
+      for (const table of tables) {
+        for (let row = 0; row < table.length; row++) {
+          table.set('Position.x', row, table.get('Position.x', row) + table.get('Velocity.x', row) * dt);
+        }
+      }
+    };
+    const { world, scheduler } = setup({ move });
+    const entity = world.createEntity();
+    world.addComponent(entity, Position, { x: 1 });
+    world.addComponent(entity, Velocity, { x: 2 });
+    const still = world.createEntity();
+    world.addComponent(still, Position, { x: 5 });
+    const inline = vi.fn();
+    scheduler.addSystem('move', inline, { reads: [Velocity], writes: [Position], worker: true });
+
+    await scheduler.updateAsync(3);
+
+    expect(world.getComponent(entity, Position).x).toBe(7);
+    expect(world.getComponent(still, Position).x).toBe(5);
+    expect(inline).not.toHaveBeenCalled();
+  });
+
+  it('should run worker and inline systems of one batch together', async () => {
+    const seen: number[] = [];
+    const { world, scheduler } = setup({
+      entities: (tables) => tables.forEach((table) => seen.push(table.entity(0))),
+    });
+    const entity = world.createEntity();
+    world.addComponent(entity, Velocity);
+    const inline = vi.fn();
+    scheduler
+      .addSystem('entities', () => undefined, { reads: [Velocity], worker: true })
+      .addSystem('inline', inline, { writes: [Position] });
+
+    await scheduler.updateAsync();
+
+    expect(scheduler.batches('update')).toEqual([['entities', 'inline']]);
+    expect(seen).toEqual([entity]);
+    expect(inline).toHaveBeenCalledOnce();
+  });
+
+  it('should reject with the errors of worker systems', async () => {
+    const { world, scheduler } = setup({
+      sneaky: (tables) => tables[0].set('Velocity.x', 0, 1),
+    });
+    world.addComponent(world.createEntity(), Velocity);
+    scheduler.addSystem('sneaky', () => undefined, { reads: [Velocity], worker: true });
+
+    await expect(scheduler.updateAsync()).rejects.toThrow('Column Velocity.x is not declared as written');
+  });
+
+  it('should run worker systems on worker threads sharing the heap', async () => {
+    const workers = [spawnWorker(), spawnWorker()];
+    try {
+      const allocator = new Allocator(16384, { shared: true });
+      const world = new World(allocator);
+      const ports = workers.map(
+        (worker): WorkerPort => ({
+          postMessage: (message) => worker.postMessage(message),
+          onMessage: (listener) => worker.on('message', listener),
+        })
+      );
+      const scheduler = new Scheduler(world, { pool: new WorkerPool(ports, allocator) });
+      const entities = Array.from({ length: 3 }, (_, i) => {
+        const entity = world.createEntity();
+        world.addComponent(entity, Position, { x: i });
+        world.addComponent(entity, Velocity, { x: 2 });
+        return entity;
+      });
+      const Frozen = defineComponent('Frozen');
+      world.addComponent(entities[2], Frozen);
+      scheduler.addSystem('move', () => undefined, { reads: [Velocity], writes: [Position], worker: true });
+
+      await scheduler.updateAsync(0.5);
+      await scheduler.updateAsync(0.5);
+
+      expect(entities.map((entity) => world.getComponent(entity, Position).x)).toEqual([2, 3, 4]);
+    } finally {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+  }, 20000);
+
+  it('should reject tasks for systems the worker does not know', async () => {
+    const { scheduler } = setup({}, 1);
+    scheduler.addSystem('missing', () => undefined, { reads: [Velocity], worker: true });
+
+    await expect(scheduler.updateAsync()).rejects.toThrow('Worker has no system missing');
+  });
+});
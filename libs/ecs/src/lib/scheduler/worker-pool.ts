@@ -0,0 +1,168 @@
+import { Allocator } from '../allocator/allocator';
+import { ELEMENT_TYPES, ElementType } from '../allocator/structures/element-type';
+import { Entity } from '../world/entity';
+
+/**
+ * Message channel to one worker. Adapts `worker_threads` workers, browser
+ * workers or their `parentPort`/`self` counterparts inside the worker.
+ */
+export interface WorkerPort {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: unknown) => void): void;
+}
+
+export interface ColumnLayout {
+  /** Offset of the column block, elements start 8 bytes in */
+  readonly offset: number;
+  readonly type: ElementType;
+  readonly write: boolean;
+}
+
+/** Where the columns a worker system declared live in one archetype */
+export interface TableLayout {
+  readonly length: number;
+  readonly entities: number;
+  /** Keyed by `Component.field` */
+  readonly columns: Readonly<Record<string, ColumnLayout>>;
+}
+
+export interface SystemTask {
+  readonly id: number;
+  readonly system: string;
+  readonly dt: number;
+  readonly tables: ReadonlyArray<TableLayout>;
+}
+
+type WorkerMessage =
+  | { kind: 'init'; buffer: SharedArrayBuffer }
+  | { kind: 'task'; task: SystemTask }
+  | { kind: 'done'; id: number; error?: string };
+
+function post(port: WorkerPort, message: WorkerMessage) {
+  port.postMessage(message);
+}
+
+/**
+ * Runs worker systems on a set of workers sharing the allocator's heap.
+ * Tasks are handed out round-robin, each worker runs its tasks in order.
+ */
+export class WorkerPool {
+  private readonly _pending = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  private _nextTask = 0;
+  private _nextPort = 0;
+
+  public get size() {
+    return this._ports.length;
+  }
+
+  constructor(
+    private readonly _ports: ReadonlyArray<WorkerPort>,
+    allocator: Allocator
+  ) {
+    if (!allocator.shared) {
+      throw new Error('A worker pool needs a shared allocator');
+    }
+    if (this._ports.length === 0) {
+      throw new Error('A worker pool needs at least one worker');
+    }
+
+    for (const port of this._ports) {
+      port.onMessage((message) => this.settle(message as WorkerMessage));
+      post(port, { kind: 'init', buffer: allocator.buffer as SharedArrayBuffer });
+    }
+  }
+
+  /** Resolves once every task finished, rejects with the first failure */
+  public run(tasks: ReadonlyArray<Omit<SystemTask, 'id'>>): Promise<void> {
+    return Promise.all(tasks.map((task) => this.dispatch(task))).then(() => undefined);
+  }
+
+  private dispatch(task: Omit<SystemTask, 'id'>): Promise<void> {
+    const id = this._nextTask++;
+    const port = this._ports[this._nextPort++ % this._ports.length];
+    return new Promise((resolve, reject) => {
+      this._pending.set(id, { resolve, reject });
+      post(port, { kind: 'task', task: { ...task, id } });
+    });
+  }
+
+  private settle(message: WorkerMessage) {
+    if (message.kind !== 'done') return;
+    const pending = this._pending.get(message.id);
+    if (!pending) return;
+    this._pending.delete(message.id);
+    if (message.error !== undefined) {
+      pending.reject(new Error(message.error));
+    } else {
+      pending.resolve();
+    }
+  }
+}
+
+/** Worker side access to one archetype, limited to the declared columns */
+export class TableView {
+  public get length() {
+    return this._layout.length;
+  }
+
+  constructor(
+    private readonly _allocator: Allocator,
+    private readonly _layout: TableLayout
+  ) {}
+
+  public entity(row: number): Entity {
+    return this._allocator.view.getUint32(this._layout.entities + 8 + row * 4);
+  }
+
+  public get(field: string, row: number): number {
+    const column = this.columnLayout(field);
+    const element = ELEMENT_TYPES[column.type];
+    return element.get(this._allocator.view, column.offset + 8 + row * element.size);
+  }
+
+  public set(field: string, row: number, value: number) {
+    const column = this.columnLayout(field);
+    if (!column.write) {
+      throw new Error(`Column ${field} is not declared as written`);
+    }
+    const element = ELEMENT_TYPES[column.type];
+    element.set(this._allocator.view, column.offset + 8 + row * element.size, value);
+  }
+
+  private columnLayout(field: string): ColumnLayout {
+    const column = this._layout.columns[field];
+    if (!column) {
+      throw new Error(`Column ${field} is not declared by the system`);
+    }
+    return column;
+  }
+}
+
+/** Runs inside a worker over every archetype holding all the components the system declared */
+export type WorkerSystem = (tables: TableView[], dt: number, allocator: Allocator) => void;
+
+/** Worker side of a `WorkerPool`, answers its tasks with the systems registered under the same names */
+export function serveSystems(port: WorkerPort, systems: Readonly<Record<string, WorkerSystem>>) {
+  let allocator: Allocator | undefined;
+  port.onMessage((received) => {
+    const message = received as WorkerMessage;
+    if (message.kind === 'init') {
+      allocator = Allocator.attach(message.buffer);
+      return;
+    }
+    if (message.kind !== 'task') return;
+
+    const { id, system, dt, tables } = message.task;
+    try {
+      const run = systems[system];
+      if (!run || !allocator) {
+        throw new Error(allocator ? `Worker has no system ${system}` : 'Worker received a task before its heap');
+      }
+      const attached = allocator;
+      run(tables.map((layout) => new TableView(attached, layout)), dt, attached);
+      post(port, { kind: 'done', id });
+    } catch (error) {
+      post(port, { kind: 'done', id, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
@@ -0,0 +1,22 @@
+export type Entity = number;
+
+export const ENTITY_INDEX_BITS = 20;
+export const ENTITY_GENERATION_BITS = 12;
+
+export const ENTITY_INDEX_MASK = (1 << ENTITY_INDEX_BITS) - 1;
+export const ENTITY_GENERATION_MASK = (1 << ENTITY_GENERATION_BITS) - 1;
+
+// Multiplication instead of shifts keeps the packed ID an unsigned 32-bit number
+const GENERATION_FACTOR = 2 ** ENTITY_INDEX_BITS;
+
+export function makeEntity(index: number, generation: number): Entity {
+  return (generation & ENTITY_GENERATION_MASK) * GENERATION_FACTOR + (index & ENTITY_INDEX_MASK);
+}
+
+export function entityIndex(entity: Entity): number {
+  return entity & ENTITY_INDEX_MASK;
+}
+
+export function entityGeneration(entity: Entity): number {
+  return Math.floor(entity / GENERATION_FACTOR) & ENTITY_GENERATION_MASK;
+}
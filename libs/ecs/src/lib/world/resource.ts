@@ -0,0 +1,66 @@
+import { Allocator, MemoryBlockRef } from '../allocator/allocator';
+import { ELEMENT_TYPES } from '../allocator/structures/element-type';
+import { IFixedStruct } from '../allocator/structures/structures.types';
+import { ComponentData, ComponentSchema, ComponentType } from '../component/component';
+
+/**
+ * The single value of a component type owned by the world instead of an entity,
+ * e.g. the elapsed time. Fields are stored back to back in schema order.
+ */
+export class Resource<S extends ComponentSchema = ComponentSchema> implements IFixedStruct {
+  private _block: MemoryBlockRef;
+  public readonly __ID: number;
+
+  /** Pass `existing` to attach to a resource registered in the allocator by a saved world */
+  constructor(
+    private readonly _allocator: Allocator,
+    public readonly type: ComponentType<S>,
+    existing?: number
+  ) {
+    // Tags still get a block of their own so every resource has a distinct offset
+    const size = Math.max(
+      type.fields.reduce((total, field) => total + ELEMENT_TYPES[type.schema[field]].size, 0),
+      1
+    );
+    if (existing !== undefined) {
+      this.__ID = existing;
+      this._block = new MemoryBlockRef(this._allocator.attachStructure(existing, this), size);
+      return;
+    }
+
+    this._block = this._allocator.allocate(size);
+    new Uint8Array(this._allocator.buffer, this._block.offset, size).fill(0);
+    this.__ID = this._allocator.registerStructure(this, { offset: this._block.offset });
+  }
+
+  public read(): ComponentData<S> {
+    const data = {} as ComponentData<S>;
+    let offset = this._block.offset;
+    for (const field of this.type.fields) {
+      const element = ELEMENT_TYPES[this.type.schema[field]];
+      data[field] = element.get(this._allocator.view, offset);
+      offset += element.size;
+    }
+    return data;
+  }
+
+  public write(values: Partial<ComponentData<S>>) {
+    let offset = this._block.offset;
+    for (const field of this.type.fields) {
+      const element = ELEMENT_TYPES[this.type.schema[field]];
+      const value = values[field];
+      if (value !== undefined) element.set(this._allocator.view, offset, value);
+      offset += element.size;
+    }
+  }
+
+  public restore(offset: number) {
+    this._block = new MemoryBlockRef(offset, this._block.size);
+  }
+
+  /** Frees the block and removes the resource from the allocator's structure table */
+  public destroy() {
+    this._allocator.unregisterStructure(this.__ID);
+    this._allocator.free(this._block);
+  }
+}
@@ -0,0 +1,183 @@
+import { BufferFormatError } from '../allocator/buffer-format';
+import { ElementType } from '../allocator/structures/element-type';
+import { ArchetypeLayout } from '../archetype/archetype';
+
+/** 'ECSW', distinguishes world snapshots from bare allocator buffers */
+export const SNAPSHOT_MAGIC = [0x45, 0x43, 0x53, 0x57];
+
+export const SNAPSHOT_VERSION = 1;
+
+// Snapshot header: magic, version (u8) and 3 reserved bytes, manifest length, heap length
+const SNAPSHOT_HEADER_SIZE = 16;
+
+const FIELD_TYPES: ReadonlyArray<ElementType> = ['i8', 'u8', 'i16', 'u16', 'i32', 'u32', 'f32', 'f64'];
+
+export interface ComponentLayout {
+  readonly name: string;
+  readonly fields: ReadonlyArray<{ readonly name: string; readonly type: ElementType }>;
+}
+
+/**
+ * Everything a world keeps outside the allocator heap, components listed by world-local ID.
+ * Blocks are referred to by structure ID, so they may move, e.g. when compacting.
+ */
+export interface WorldManifest {
+  readonly header: number;
+  readonly entities: number;
+  readonly locationArchetype: number;
+  readonly locationRow: number;
+  readonly components: ReadonlyArray<ComponentLayout>;
+  readonly archetypes: ReadonlyArray<ArchetypeLayout & { readonly components: ReadonlyArray<number> }>;
+  readonly resources: ReadonlyArray<{ readonly component: number; readonly structure: number }>;
+}
+
+export interface WorldSnapshot {
+  readonly manifest: WorldManifest;
+  /** Copy of the allocator buffer */
+  readonly heap: Uint8Array;
+}
+
+class SnapshotWriter {
+  private readonly _bytes: number[] = [];
+
+  public get length() {
+    return this._bytes.length;
+  }
+
+  public u8(value: number) {
+    this._bytes.push(value & 0xff);
+  }
+
+  public u32(value: number) {
+    this._bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+  }
+
+  public string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.u32(encoded.length);
+    this._bytes.push(...encoded);
+  }
+
+  public copyTo(target: Uint8Array, offset: number) {
+    target.set(this._bytes, offset);
+  }
+}
+
+class SnapshotReader {
+  private _position = 0;
+  private readonly _view: DataView;
+
+  constructor(private readonly _bytes: Uint8Array) {
+    this._view = new DataView(_bytes.buffer, _bytes.byteOffset, _bytes.byteLength);
+  }
+
+  public u8(): number {
+    this.ensure(1);
+    return this._view.getUint8(this._position++);
+  }
+
+  public u32(): number {
+    this.ensure(4);
+    const value = this._view.getUint32(this._position);
+    this._position += 4;
+    return value;
+  }
+
+  public string(): string {
+    const length = this.u32();
+    this.ensure(length);
+    const value = new TextDecoder().decode(this._bytes.subarray(this._position, this._position + length));
+    this._position += length;
+    return value;
+  }
+
+  private ensure(size: number) {
+    if (this._position + size > this._bytes.length) {
+      throw new BufferFormatError('World snapshot is truncated');
+    }
+  }
+}
+
+export function encodeSnapshot({ manifest, heap }: WorldSnapshot): Uint8Array {
+  const writer = new SnapshotWriter();
+  writer.u32(manifest.header);
+  writer.u32(manifest.entities);
+  writer.u32(manifest.locationArchetype);
+  writer.u32(manifest.locationRow);
+  writer.u32(manifest.components.length);
+  for (const component of manifest.components) {
+    writer.string(component.name);
+    writer.u32(component.fields.length);
+    for (const field of component.fields) {
+      writer.string(field.name);
+      writer.u8(FIELD_TYPES.indexOf(field.type));
+    }
+  }
+  writer.u32(manifest.archetypes.length);
+  for (const archetype of manifest.archetypes) {
+    writer.u32(archetype.components.length);
+    archetype.components.forEach((id) => writer.u32(id));
+    writer.u32(archetype.entities);
+    writer.u32(archetype.columns.length);
+    archetype.columns.forEach((id) => writer.u32(id));
+  }
+  writer.u32(manifest.resources.length);
+  for (const resource of manifest.resources) {
+    writer.u32(resource.component);
+    writer.u32(resource.structure);
+  }
+
+  const bytes = new Uint8Array(SNAPSHOT_HEADER_SIZE + writer.length + heap.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(SNAPSHOT_MAGIC);
+  view.setUint8(4, SNAPSHOT_VERSION);
+  view.setUint32(8, writer.length);
+  view.setUint32(12, heap.length);
+  writer.copyTo(bytes, SNAPSHOT_HEADER_SIZE);
+  bytes.set(heap, SNAPSHOT_HEADER_SIZE + writer.length);
+  return bytes;
+}
+
+export function decodeSnapshot(bytes: Uint8Array): WorldSnapshot {
+  if (bytes.length < SNAPSHOT_HEADER_SIZE || SNAPSHOT_MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new BufferFormatError('Bytes are not a world snapshot');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version !== SNAPSHOT_VERSION) {
+    throw new BufferFormatError(`Unsupported world snapshot version ${version}, expected ${SNAPSHOT_VERSION}`);
+  }
+  const manifestLength = view.getUint32(8);
+  const heapStart = SNAPSHOT_HEADER_SIZE + manifestLength;
+  if (heapStart + view.getUint32(12) !== bytes.length) {
+    throw new BufferFormatError('World snapshot is truncated');
+  }
+
+  const reader = new SnapshotReader(bytes.subarray(SNAPSHOT_HEADER_SIZE, heapStart));
+  const header = reader.u32();
+  const entities = reader.u32();
+  const locationArchetype = reader.u32();
+  const locationRow = reader.u32();
+  const components = Array.from({ length: reader.u32() }, () => ({
+    name: reader.string(),
+    fields: Array.from({ length: reader.u32() }, () => {
+      const name = reader.string();
+      const type = FIELD_TYPES[reader.u8()];
+      if (!type) {
+        throw new BufferFormatError(`Field ${name} of the world snapshot has an unknown type`);
+      }
+      return { name, type };
+    }),
+  }));
+  const archetypes = Array.from({ length: reader.u32() }, () => ({
+    components: Array.from({ length: reader.u32() }, () => reader.u32()),
+    entities: reader.u32(),
+    columns: Array.from({ length: reader.u32() }, () => reader.u32()),
+  }));
+  const resources = Array.from({ length: reader.u32() }, () => ({ component: reader.u32(), structure: reader.u32() }));
+
+  return {
+    manifest: { header, entities, locationArchetype, locationRow, components, archetypes, resources },
+    heap: bytes.subarray(heapStart),
+  };
+}
@@ -0,0 +1,357 @@
+import { Allocator } from '../allocator/allocator';
+import { BufferFormatError } from '../allocator/buffer-format';
+import { ResizableArray } from '../allocator/structures/resazible-array/resizable-array';
+import { Commands } from '../commands/commands';
+import { defineComponent } from '../component/component';
+import { entityGeneration, entityIndex, makeEntity } from './entity';
+import { World } from './world';
+import { decodeSnapshot } from './world-snapshot';
+
+const Position = defineComponent('Position', { x: 'f32', y: 'f32' });
+const Health = defineComponent('Health', { hp: 'u16' });
+
+describe('World', () => {
+  it('should create entities with sequential indices', () => {
+    const world = new World(new Allocator(1024));
+    const a = world.createEntity();
+    const b = world.createEntity();
+    expect(entityIndex(a)).toBe(0);
+    expect(entityIndex(b)).toBe(1);
+    expect(entityGeneration(a)).toBe(0);
+    expect(world.entityCount).toBe(2);
+  });
+
+  it('should recycle destroyed indices with a new generation', () => {
+    const world = new World(new Allocator(1024));
+    const a = world.createEntity();
+    world.destroyEntity(a);
+    const b = world.createEntity();
+
+    expect(entityIndex(b)).toBe(entityIndex(a));
+    expect(entityGeneration(b)).toBe(entityGeneration(a) + 1);
+    expect(world.isAlive(a)).toBe(false);
+    expect(world.isAlive(b)).toBe(true);
+  });
+
+  it('should reject stale handles', () => {
+    const world = new World(new Allocator(1024));
+    const a = world.createEntity();
+    world.destroyEntity(a);
+    expect(() => world.destroyEntity(a)).toThrow('is not alive');
+    expect(world.isAlive(makeEntity(5, 0))).toBe(false);
+  });
+
+  it('should grow the entity table past its initial capacity', () => {
+    const world = new World(new Allocator(1024), 2);
+    const entities = [];
+    for (let i = 0; i < 100; i++) {
+      entities.push(world.createEntity());
+    }
+    world.destroyEntity(entities[10]);
+
+    expect(world.entityCount).toBe(99);
+    expect(entities.filter((entity) => world.isAlive(entity)).length).toBe(99);
+    expect(entityIndex(world.createEntity())).toBe(10);
+  });
+
+  it('should start new entity slots at generation 0 when growing into a reused block', () => {
+    const allocator = new Allocator(1024);
+    const world = new World(allocator, 2);
+    const stale = allocator.allocate(64);
+    new Uint8Array(allocator.buffer, stale.offset, stale.size).fill(0xff);
+    allocator.free(stale);
+
+    const entities = [0, 1, 2, 3].map(() => world.createEntity());
+
+    expect(entities.map(entityIndex)).toEqual([0, 1, 2, 3]);
+    expect(entities.map(entityGeneration)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should keep entities through a snapshot round trip', () => {
+    const world = new World(new Allocator(1024), 4);
+    const entities = [];
+    for (let i = 0; i < 10; i++) {
+      entities.push(world.createEntity());
+    }
+    world.destroyEntity(entities[3]);
+
+    const restored = World.restore(world.snapshot(), []);
+
+    expect(restored.entityCount).toBe(9);
+    expect(restored.isAlive(entities[3])).toBe(false);
+    expect(restored.isAlive(entities[4])).toBe(true);
+    const recycled = restored.createEntity();
+    expect(entityIndex(recycled)).toBe(3);
+    expect(entityGeneration(recycled)).toBe(1);
+  });
+
+  it('should add, update and remove components', () => {
+    const world = new World(new Allocator(1024));
+    const entity = world.createEntity();
+    world.addComponent(entity, Position, { x: 1, y: 2 });
+    world.addComponent(entity, Health, { hp: 10 });
+    world.setComponent(entity, Position, { y: 5 });
+
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1, y: 5 });
+    expect(world.hasComponent(entity, Health)).toBe(true);
+
+    world.removeComponent(entity, Health);
+    expect(world.hasComponent(entity, Health)).toBe(false);
+  });
+
+  it('should drop components of destroyed entities', () => {
+    const world = new World(new Allocator(1024));
+    const entity = world.createEntity();
+    world.addComponent(entity, Position);
+    world.destroyEntity(entity);
+
+    expect(world.query(Position).count).toBe(0);
+    expect(world.hasComponent(entity, Position)).toBe(false);
+    expect(() => world.addComponent(entity, Health)).toThrow('is not alive');
+  });
+
+  it('should group entities with the same components into one archetype', () => {
+    const world = new World(new Allocator(1024));
+    const a = world.createEntity();
+    const b = world.createEntity();
+    world.addComponent(a, Position);
+    world.addComponent(a, Health);
+    world.addComponent(b, Health);
+    world.addComponent(b, Position);
+
+    expect(world.archetypeOf(a)).toBe(world.archetypeOf(b));
+    expect(world.archetypeOf(a).length).toBe(2);
+  });
+
+  it('should keep component data when moving between archetypes', () => {
+    const world = new World(new Allocator(1024));
+    const a = world.createEntity();
+    const b = world.createEntity();
+    world.addComponent(a, Position, { x: 1, y: 2 });
+    world.addComponent(b, Position, { x: 3, y: 4 });
+    world.addComponent(a, Health, { hp: 7 });
+    world.removeComponent(b, Position);
+
+    expect(world.getComponent(a, Position)).toEqual({ x: 1, y: 2 });
+    expect(world.getComponent(a, Health)).toEqual({ hp: 7 });
+    expect(world.hasComponent(b, Position)).toBe(false);
+    expect(world.archetypeOf(b)).toBe(world.archetypes[0]);
+  });
+
+  it('should query entities by component set', () => {
+    const world = new World(new Allocator(4096));
+    const moving = world.query(Position, Health);
+    const entities = [];
+    for (let i = 0; i < 6; i++) {
+      const entity = world.createEntity();
+      world.addComponent(entity, Position, { x: i });
+      if (i % 2 === 0) world.addComponent(entity, Health, { hp: i });
+      entities.push(entity);
+    }
+
+    expect(world.query(Health, Position)).toBe(moving);
+    expect(moving.entities().sort()).toEqual([entities[0], entities[2], entities[4]]);
+    expect(world.query(Position).count).toBe(6);
+
+    let total = 0;
+    for (const archetype of moving.archetypes) {
+      const hp = archetype.column(Health, 'hp');
+      for (let row = 0; row < archetype.length; row++) {
+        total += hp.get(row);
+      }
+    }
+    expect(total).toBe(6);
+  });
+
+  it('should keep working after the allocator compacts under it', () => {
+    const allocator = new Allocator(1024);
+    const hole = allocator.allocate(256);
+    const world = new World(allocator, 4);
+    const commands = new Commands(world);
+    const entities = [];
+    for (let i = 0; i < 20; i++) {
+      const entity = world.createEntity();
+      world.addComponent(entity, Position, { x: i, y: -i });
+      if (i % 2) world.addComponent(entity, Health, { hp: i });
+      entities.push(entity);
+    }
+    world.destroyEntity(entities[3]);
+    commands.setComponent(entities[4], Position, { x: 40 });
+    world.setResource(Health, { hp: 1000 });
+    allocator.free(hole);
+
+    allocator.compact({ truncate: true });
+
+    // Columns keep their element alignment, only padding narrower than it stays free
+    expect(allocator.stats().freeBytes).toBeLessThan(4);
+    expect(world.entityCount).toBe(19);
+    expect(world.isAlive(entities[3])).toBe(false);
+    expect(world.getComponent(entities[7], Position)).toEqual({ x: 7, y: -7 });
+    expect(world.getComponent(entities[7], Health)).toEqual({ hp: 7 });
+    expect(world.query(Position, Health).count).toBe(9);
+    expect(world.getResource(Health)).toEqual({ hp: 1000 });
+    commands.apply();
+    expect(world.getComponent(entities[4], Position)).toEqual({ x: 40, y: -4 });
+
+    const recycled = world.createEntity();
+    expect(entityIndex(recycled)).toBe(3);
+    expect(entityGeneration(recycled)).toBe(1);
+    world.addComponent(recycled, Health, { hp: 99 });
+    const restored = World.restore(world.snapshot(), [Position, Health]);
+    expect(restored.getComponent(recycled, Health)).toEqual({ hp: 99 });
+    expect(restored.query(Position, Health).count).toBe(9);
+  });
+
+  it('should store resources apart from entities', () => {
+    const world = new World(new Allocator(1024));
+    const Time = defineComponent('Time', { elapsed: 'f64', frame: 'u32' });
+    const Paused = defineComponent('Paused');
+    world.setResource(Time, { elapsed: 0.5 });
+    world.setResource(Time, { frame: 3 });
+    world.setResource(Paused);
+
+    expect(world.getResource(Time)).toEqual({ elapsed: 0.5, frame: 3 });
+    expect(world.getResource(Paused)).toEqual({});
+    expect(world.query(Time).count).toBe(0);
+
+    world.removeResource(Paused);
+    expect(world.hasResource(Paused)).toBe(false);
+    expect(() => world.getResource(Paused)).toThrow('Resource Paused is not set');
+    expect(() => world.removeResource(Paused)).toThrow('Resource Paused is not set');
+    world.allocator.validate();
+  });
+
+  it('should match the heap again after the allocator rewinds', () => {
+    const allocator = new Allocator(1024);
+    const world = new World(allocator, 4);
+    const entity = world.createEntity();
+    world.addComponent(entity, Position, { x: 1, y: 2 });
+    world.setResource(Health, { hp: 5 });
+    const checkpoint = allocator.checkpoint();
+
+    for (let i = 0; i < 40; i++) world.addComponent(world.createEntity(), Position, { x: i, y: i });
+    world.addComponent(entity, Health, { hp: 9 });
+    const withHealth = world.query(Position, Health);
+    expect(withHealth.count).toBe(1);
+    world.removeResource(Health);
+    allocator.rewind(checkpoint);
+
+    expect(world.entityCount).toBe(1);
+    expect(world.query(Position).count).toBe(1);
+    expect(withHealth.count).toBe(0);
+    expect(world.getComponent(entity, Position)).toEqual({ x: 1, y: 2 });
+    expect(world.hasComponent(entity, Health)).toBe(false);
+    expect(world.getResource(Health)).toEqual({ hp: 5 });
+
+    world.addComponent(entity, Health, { hp: 4 });
+    expect(withHealth.entities()).toEqual([entity]);
+    expect(world.archetypes.map((archetype) => archetype.types)).toEqual([[], [Position], [Position, Health]]);
+    expect(entityIndex(world.createEntity())).toBe(1);
+    allocator.validate();
+  });
+
+  describe('snapshot', () => {
+    const Frozen = defineComponent('Frozen');
+    const Time = defineComponent('Time', { elapsed: 'f64', frame: 'u32' });
+    const schema = [Position, Health, Frozen, Time];
+
+    const populate = () => {
+      const world = new World(new Allocator(1024), 4);
+      const entities = [];
+      for (let i = 0; i < 12; i++) {
+        const entity = world.createEntity();
+        world.addComponent(entity, Position, { x: i, y: -i });
+        if (i % 2) world.addComponent(entity, Health, { hp: i * 10 });
+        if (i % 3 === 0) world.addComponent(entity, Frozen);
+        entities.push(entity);
+      }
+      world.destroyEntity(entities[5]);
+      world.removeComponent(entities[6], Frozen);
+      world.setResource(Time, { elapsed: 1.25, frame: 12 });
+      return { world, entities };
+    };
+
+    it('should restore entities, components and archetype membership', () => {
+      const { world, entities } = populate();
+
+      const restored = World.restore(world.snapshot(), [Time, Frozen, Health, Position]);
+
+      expect(restored.entityCount).toBe(11);
+      expect(restored.isAlive(entities[5])).toBe(false);
+      expect(restored.archetypes.map((archetype) => archetype.types)).toEqual(
+        world.archetypes.map((archetype) => archetype.types)
+      );
+      for (const entity of entities.filter((entity) => entity !== entities[5])) {
+        expect(restored.archetypeOf(entity).id).toBe(world.archetypeOf(entity).id);
+        expect(restored.getComponent(entity, Position)).toEqual(world.getComponent(entity, Position));
+        expect(restored.hasComponent(entity, Health)).toBe(world.hasComponent(entity, Health));
+      }
+      expect(restored.query(Position, Frozen).count).toBe(world.query(Position, Frozen).count);
+      expect(restored.getResource(Time)).toEqual({ elapsed: 1.25, frame: 12 });
+
+      const recycled = restored.createEntity();
+      expect(entityIndex(recycled)).toBe(5);
+      expect(entityGeneration(recycled)).toBe(1);
+    });
+
+    it('should round-trip exactly', () => {
+      const { world } = populate();
+      const snapshot = world.snapshot();
+
+      expect(World.restore(snapshot, schema).snapshot()).toEqual(snapshot);
+    });
+
+    it('should keep working after a restore', () => {
+      const { world, entities } = populate();
+      const restored = World.restore(world.snapshot(), schema);
+
+      restored.addComponent(entities[0], Health, { hp: 7 });
+      restored.removeComponent(entities[1], Position);
+      for (let i = 0; i < 20; i++) restored.addComponent(restored.createEntity(), Frozen);
+      restored.setResource(Time, { frame: 13 });
+
+      expect(restored.getComponent(entities[0], Health)).toEqual({ hp: 7 });
+      expect(restored.hasComponent(entities[1], Position)).toBe(false);
+      expect(restored.query(Frozen).count).toBe(23);
+      expect(world.query(Frozen).count).toBe(3);
+      expect(restored.getResource(Time)).toEqual({ elapsed: 1.25, frame: 13 });
+      expect(world.getResource(Time).frame).toBe(12);
+      restored.allocator.validate();
+    });
+
+    it('should restore structures stored next to the world', () => {
+      const { world } = populate();
+      const scores = new ResizableArray(world.allocator, 2, 'f64');
+      [1.5, 2.5, 3.5].forEach((score) => scores.push(score));
+
+      const restored = World.restore(world.snapshot(), schema);
+
+      const restoredScores = restored.allocator.getStructure<ResizableArray<'f64'>>(scores.__ID);
+      expect(restoredScores.length).toBe(3);
+      expect(restoredScores.get(2)).toBe(3.5);
+    });
+
+    it('should reject snapshots that do not match the schema', () => {
+      const { world } = populate();
+      const snapshot = world.snapshot();
+
+      expect(() => World.restore(snapshot, [Position, Health, Time])).toThrow(
+        'Component Frozen of the snapshot is missing from the schema'
+      );
+      expect(() => World.restore(snapshot, [defineComponent('Position', { x: 'f64', y: 'f32' }), Health, Frozen, Time])).toThrow(
+        'Component Position does not have the fields of the snapshot'
+      );
+      expect(() => World.restore(snapshot.subarray(0, 100), schema)).toThrow(BufferFormatError);
+      expect(() => World.restore(new Uint8Array(world.allocator.buffer), schema)).toThrow('Bytes are not a world snapshot');
+    });
+
+    it('should reject snapshots whose heap is damaged with format errors', () => {
+      const { world } = populate();
+      const snapshot = world.snapshot();
+      // The heap magic bytes, the heap is a view into the snapshot
+      snapshot[decodeSnapshot(snapshot).heap.byteOffset + 28] ^= 0xff;
+
+      expect(() => World.restore(snapshot, schema)).toThrow(BufferFormatError);
+    });
+  });
+});
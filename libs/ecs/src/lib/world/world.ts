@@ -0,0 +1,497 @@
+import { Allocator, AllocatorOptions, MemoryBlockRef } from '../allocator/allocator';
+import { BufferFormatError } from '../allocator/buffer-format';
+import { Column } from '../allocator/structures/column/column';
+import { IFixedStruct } from '../allocator/structures/structures.types';
+import { AccessMonitor, Archetype, ArchetypeLayout } from '../archetype/archetype';
+import { ComponentMask } from '../archetype/component-mask';
+import { ComponentData, ComponentSchema, ComponentType } from '../component/component';
+import { Query, QueryMasks } from '../query/query';
+import { QueryFilter, QueryTerm } from '../query/query-filter';
+import { Entity, ENTITY_GENERATION_MASK, ENTITY_INDEX_MASK, entityGeneration, entityIndex, makeEntity } from './entity';
+import { Resource } from './resource';
+import { decodeSnapshot, encodeSnapshot, WorldManifest } from './world-snapshot';
+
+// Header layout: capacity, used indices, free count, alive count
+const HEADER_SIZE = 16;
+const ALIVE_FLAG = 0x80000000;
+
+export class World {
+  private _header: MemoryBlockRef;
+  private _entities: MemoryBlockRef;
+  // Registered so compaction moves the header and entity table like any other structure
+  private readonly _headerId: number;
+  private readonly _entitiesId: number;
+  private readonly _headerStruct: IFixedStruct = {
+    restore: (offset) => {
+      this._header = new MemoryBlockRef(offset, HEADER_SIZE);
+    },
+  };
+  private readonly _entitiesStruct: IFixedStruct = {
+    restore: (offset) => {
+      this._entities = new MemoryBlockRef(offset, this._entities.size);
+    },
+  };
+  private readonly _componentIds = new Map<ComponentType, number>();
+  private readonly _componentTypes: ComponentType[] = [];
+  private readonly _archetypes: Archetype[] = [];
+  private readonly _archetypesByKey = new Map<string, Archetype>();
+  private readonly _queries = new Map<string, Query>();
+  private readonly _resources = new Map<ComponentType, Resource>();
+  // Type of every resource structure, including removed ones a rewind may bring back
+  private readonly _resourceTypes = new Map<number, ComponentType>();
+  private _monitor?: AccessMonitor;
+  // Archetype and row of every entity, indexed by entity index
+  private readonly _locationArchetype: Column;
+  private readonly _locationRow: Column;
+
+  public get allocator(): Allocator {
+    return this._allocator;
+  }
+
+  public get entityCount(): number {
+    return this._allocator.view.getUint32(this._header.offset + 12);
+  }
+
+  public get archetypes(): ReadonlyArray<Archetype> {
+    return this._archetypes;
+  }
+
+  private get capacity(): number {
+    return this._allocator.view.getUint32(this._header.offset);
+  }
+
+  /** `restored` is how `World.restore` reattaches every archetype, prefer that over passing it directly */
+  constructor(
+    private readonly _allocator: Allocator,
+    initialCapacity = 64,
+    restored?: { manifest: WorldManifest; types: ReadonlyArray<ComponentType> }
+  ) {
+    if (restored) {
+      const { manifest, types } = restored;
+      this._headerId = manifest.header;
+      this._header = new MemoryBlockRef(this._allocator.attachStructure(manifest.header, this._headerStruct), HEADER_SIZE);
+      this._entitiesId = manifest.entities;
+      this._entities = new MemoryBlockRef(this._allocator.attachStructure(manifest.entities, this._entitiesStruct), this.capacity * 8);
+      this._locationArchetype = this._allocator.getStructure<Column>(manifest.locationArchetype);
+      this._locationRow = this._allocator.getStructure<Column>(manifest.locationRow);
+      types.forEach((type) => this.componentId(type));
+      for (const layout of manifest.archetypes) {
+        const archetypeTypes = layout.components.map((id) => this.componentType(id));
+        this.createArchetype(ComponentMask.from(layout.components), archetypeTypes, layout);
+      }
+      for (const { component, structure } of manifest.resources) {
+        const type = this.componentType(component);
+        this._resources.set(type, new Resource(this._allocator, type, structure));
+        this._resourceTypes.set(structure, type);
+      }
+      this._allocator.onRewind(() => this.rewound());
+      return;
+    }
+
+    this._header = this._allocator.allocate(HEADER_SIZE);
+    this._headerId = this._allocator.registerStructure(this._headerStruct, { offset: this._header.offset });
+    // Entity table holds the generations followed by the recycled index stack
+    this._entities = this._allocator.allocate(initialCapacity * 8);
+    this._entitiesId = this._allocator.registerStructure(this._entitiesStruct, { offset: this._entities.offset });
+    const view = this._allocator.view;
+    view.setUint32(this._header.offset, initialCapacity);
+    view.setUint32(this._header.offset + 4, 0);
+    view.setUint32(this._header.offset + 8, 0);
+    view.setUint32(this._header.offset + 12, 0);
+
+    this._locationArchetype = new Column(this._allocator, 'u32', Math.max(initialCapacity, 16));
+    this._locationRow = new Column(this._allocator, 'u32', Math.max(initialCapacity, 16));
+    this.createArchetype(ComponentMask.EMPTY);
+    this._allocator.onRewind(() => this.rewound());
+  }
+
+  /**
+   * Recreates a world from `snapshot`, with the same entities, archetypes and rows.
+   * Components are matched by name against `schema`, which must hold every component
+   * the snapshot used with the same fields. Tagged structures such as `ResizableArray`
+   * are recreated by the allocator.
+   */
+  static restore(bytes: Uint8Array, schema: ReadonlyArray<ComponentType>, options?: AllocatorOptions): World {
+    const { manifest, heap } = decodeSnapshot(bytes);
+    const types = manifest.components.map((layout) => {
+      const type = schema.find((candidate) => candidate.name === layout.name);
+      if (!type) {
+        throw new BufferFormatError(`Component ${layout.name} of the snapshot is missing from the schema`);
+      }
+      const matches =
+        type.fields.length === layout.fields.length &&
+        layout.fields.every((field, i) => type.fields[i] === field.name && type.schema[field.name] === field.type);
+      if (!matches) {
+        throw new BufferFormatError(`Component ${layout.name} does not have the fields of the snapshot`);
+      }
+      return type;
+    });
+    return new World(Allocator.fromBuffer(heap, options), 0, { manifest, types });
+  }
+
+  /** Copies the heap together with the component registry and archetype layout, see `World.restore` */
+  public snapshot(): Uint8Array {
+    const manifest: WorldManifest = {
+      header: this._headerId,
+      entities: this._entitiesId,
+      locationArchetype: this._locationArchetype.__ID,
+      locationRow: this._locationRow.__ID,
+      components: this._componentTypes.map((type) => ({
+        name: type.name,
+        fields: type.fields.map((field) => ({ name: field, type: type.schema[field] })),
+      })),
+      archetypes: this._archetypes.map((archetype) => ({
+        ...archetype.layout(),
+        components: archetype.types.map((type) => this.componentId(type)),
+      })),
+      resources: [...this._resources.values()].map((resource) => ({
+        component: this.componentId(resource.type),
+        structure: resource.__ID,
+      })),
+    };
+    this._allocator.seal();
+    return encodeSnapshot({ manifest, heap: new Uint8Array(this._allocator.buffer).slice() });
+  }
+
+  public createEntity(): Entity {
+    const view = this._allocator.view;
+    const header = this._header.offset;
+    const freeCount = view.getUint32(header + 8);
+    let index: number;
+
+    if (freeCount > 0) {
+      index = view.getUint32(this._entities.offset + this.capacity * 4 + (freeCount - 1) * 4);
+      view.setUint32(header + 8, freeCount - 1);
+    } else {
+      index = view.getUint32(header + 4);
+      if (index > ENTITY_INDEX_MASK) {
+        throw new Error('Entity limit reached');
+      }
+      if (index >= this.capacity) {
+        // Growing may expand the allocator buffer, so the cached view is stale afterwards
+        this.grow();
+      }
+      this._allocator.view.setUint32(header + 4, index + 1);
+    }
+
+    const slot = this._entities.offset + index * 4;
+    const generation = this._allocator.view.getUint32(slot) & ENTITY_GENERATION_MASK;
+    this._allocator.view.setUint32(slot, (generation | ALIVE_FLAG) >>> 0);
+    this._allocator.view.setUint32(header + 12, this.entityCount + 1);
+
+    const entity = makeEntity(index, generation);
+    this.place(entity, this._archetypes[0]);
+    return entity;
+  }
+
+  public destroyEntity(entity: Entity) {
+    this.assertAlive(entity);
+
+    this.unplace(entity);
+
+    const view = this._allocator.view;
+    const header = this._header.offset;
+    const index = entityIndex(entity);
+
+    // Bumping the generation invalidates every handle still pointing at this index
+    view.setUint32(this._entities.offset + index * 4, (entityGeneration(entity) + 1) & ENTITY_GENERATION_MASK);
+
+    const freeCount = view.getUint32(header + 8);
+    view.setUint32(this._entities.offset + this.capacity * 4 + freeCount * 4, index);
+    view.setUint32(header + 8, freeCount + 1);
+    view.setUint32(header + 12, this.entityCount - 1);
+  }
+
+  public isAlive(entity: Entity): boolean {
+    const index = entityIndex(entity);
+    if (index >= this._allocator.view.getUint32(this._header.offset + 4)) {
+      return false;
+    }
+
+    const slot = this._allocator.view.getUint32(this._entities.offset + index * 4);
+    return (slot & ALIVE_FLAG) !== 0 && (slot & ENTITY_GENERATION_MASK) === entityGeneration(entity);
+  }
+
+  /** World-local ID of a component type, assigned on first use */
+  public componentId(type: ComponentType): number {
+    let id = this._componentIds.get(type);
+    if (id === undefined) {
+      id = this._componentTypes.length;
+      this._componentIds.set(type, id);
+      this._componentTypes.push(type);
+    }
+    return id;
+  }
+
+  public componentType(id: number): ComponentType {
+    const type = this._componentTypes[id];
+    if (!type) {
+      throw new Error(`Component with ID ${id} not found`);
+    }
+    return type;
+  }
+
+  /** Archetype currently holding the entity */
+  public archetypeOf(entity: Entity): Archetype {
+    this.assertAlive(entity);
+    return this._archetypes[this._locationArchetype.get(entityIndex(entity))];
+  }
+
+  public addComponent<S extends ComponentSchema>(entity: Entity, type: ComponentType<S>, values?: Partial<ComponentData<S>>) {
+    this._monitor?.(type, 'write');
+    const source = this.archetypeOf(entity);
+    if (source.has(type)) {
+      throw new Error(`Entity ${entity} already has component ${type.name}`);
+    }
+
+    const target = this.archetypeWith(source, type);
+    const row = this.move(entity, source, target);
+    if (values) target.write(row, type, values);
+  }
+
+  public removeComponent(entity: Entity, type: ComponentType) {
+    this._monitor?.(type, 'write');
+    const source = this.archetypeOf(entity);
+    if (!source.has(type)) {
+      throw new Error(`Entity ${entity} does not have component ${type.name}`);
+    }
+
+    this.move(entity, source, this.archetypeWithout(source, type));
+  }
+
+  public hasComponent(entity: Entity, type: ComponentType): boolean {
+    return this.isAlive(entity) && this.archetypeOf(entity).has(type);
+  }
+
+  public getComponent<S extends ComponentSchema>(entity: Entity, type: ComponentType<S>): ComponentData<S> {
+    return this.archetypeOf(entity).read(this._locationRow.get(entityIndex(entity)), type);
+  }
+
+  public setComponent<S extends ComponentSchema>(entity: Entity, type: ComponentType<S>, values: Partial<ComponentData<S>>) {
+    this.archetypeOf(entity).write(this._locationRow.get(entityIndex(entity)), type, values);
+  }
+
+  /** Creates the resource on first use, with unset fields zeroed */
+  public setResource<S extends ComponentSchema>(type: ComponentType<S>, values: Partial<ComponentData<S>> = {}) {
+    this._monitor?.(type, 'write');
+    let resource = this._resources.get(type) as Resource<S> | undefined;
+    if (!resource) {
+      this.componentId(type);
+      resource = new Resource(this._allocator, type);
+      this._resources.set(type, resource);
+      this._resourceTypes.set(resource.__ID, type);
+    }
+    resource.write(values);
+  }
+
+  public getResource<S extends ComponentSchema>(type: ComponentType<S>): ComponentData<S> {
+    this._monitor?.(type, 'read');
+    const resource = this._resources.get(type) as Resource<S> | undefined;
+    if (!resource) {
+      throw new Error(`Resource ${type.name} is not set`);
+    }
+    return resource.read();
+  }
+
+  public hasResource(type: ComponentType): boolean {
+    return this._resources.has(type);
+  }
+
+  public removeResource(type: ComponentType) {
+    this._monitor?.(type, 'write');
+    const resource = this._resources.get(type);
+    if (!resource) {
+      throw new Error(`Resource ${type.name} is not set`);
+    }
+    resource.destroy();
+    this._resources.delete(type);
+  }
+
+  /** Reports every component read and write made through the world or archetypes until called without a monitor */
+  public monitorAccess(monitor?: AccessMonitor) {
+    this._monitor = monitor;
+    for (const archetype of this._archetypes) {
+      archetype.monitor = monitor;
+    }
+  }
+
+  /**
+   * Entities matching the terms, e.g. `world.query(Position, Not(Frozen), Or(Player, Npc))`.
+   * Queries are cached per term set and only re-matched when a new archetype appears.
+   */
+  public query(...terms: QueryTerm[]): Query {
+    const masks = this.compileQuery(terms);
+    const key = Query.key(masks);
+    let query = this._queries.get(key);
+    if (!query) {
+      query = new Query(masks);
+      for (const archetype of this._archetypes) {
+        query.track(archetype);
+      }
+      this._queries.set(key, query);
+    }
+    return query;
+  }
+
+  private compileQuery(terms: QueryTerm[]): QueryMasks {
+    const ids = (types: ReadonlyArray<ComponentType>) => types.map((type) => this.componentId(type));
+    let all = ComponentMask.EMPTY;
+    let none = ComponentMask.EMPTY;
+    let optional = ComponentMask.EMPTY;
+    const any: ComponentMask[] = [];
+
+    for (const term of terms) {
+      if (!(term instanceof QueryFilter)) {
+        all = all.with(this.componentId(term));
+        continue;
+      }
+      switch (term.kind) {
+        case 'with':
+          all = ComponentMask.from([...all.ids(), ...ids(term.types)]);
+          break;
+        case 'without':
+          none = ComponentMask.from([...none.ids(), ...ids(term.types)]);
+          break;
+        case 'or':
+          any.push(ComponentMask.from(ids(term.types)));
+          break;
+        case 'optional':
+          optional = ComponentMask.from([...optional.ids(), ...ids(term.types)]);
+          break;
+      }
+    }
+
+    // Sorted so the cache key does not depend on the order of the terms
+    any.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return { all, none, any, optional };
+  }
+
+  private archetypeWith(source: Archetype, type: ComponentType): Archetype {
+    const edge = source.edges.get(type) ?? {};
+    if (!edge.add) {
+      edge.add = this.getArchetype(source.mask.with(this.componentId(type)), [...source.types, type]);
+      source.edges.set(type, edge);
+    }
+    return edge.add;
+  }
+
+  private archetypeWithout(source: Archetype, type: ComponentType): Archetype {
+    const edge = source.edges.get(type) ?? {};
+    if (!edge.remove) {
+      const types = source.types.filter((other) => other !== type);
+      edge.remove = this.getArchetype(source.mask.without(this.componentId(type)), types);
+      source.edges.set(type, edge);
+    }
+    return edge.remove;
+  }
+
+  private getArchetype(mask: ComponentMask, types: ReadonlyArray<ComponentType>): Archetype {
+    return this._archetypesByKey.get(mask.key) ?? this.createArchetype(mask, types);
+  }
+
+  private createArchetype(mask: ComponentMask, types: ReadonlyArray<ComponentType> = [], existing?: ArchetypeLayout): Archetype {
+    const archetype = new Archetype(this._allocator, this._archetypes.length, mask, types, 16, existing);
+    archetype.monitor = this._monitor;
+    this._archetypes.push(archetype);
+    this._archetypesByKey.set(mask.key, archetype);
+    for (const query of this._queries.values()) {
+      query.track(archetype);
+    }
+    return archetype;
+  }
+
+  private place(entity: Entity, archetype: Archetype) {
+    const index = entityIndex(entity);
+    this._locationArchetype.extend(index + 1);
+    this._locationRow.extend(index + 1);
+    this._locationArchetype.set(index, archetype.id);
+    this._locationRow.set(index, archetype.addRow(entity));
+  }
+
+  private unplace(entity: Entity) {
+    const index = entityIndex(entity);
+    const archetype = this._archetypes[this._locationArchetype.get(index)];
+    this.monitorRows(archetype);
+    const moved = archetype.removeRow(this._locationRow.get(index));
+    if (moved !== undefined) {
+      this._locationRow.set(entityIndex(moved), this._locationRow.get(index));
+    }
+  }
+
+  private move(entity: Entity, source: Archetype, target: Archetype): number {
+    const index = entityIndex(entity);
+    this.monitorRows(target);
+    const row = source.copyRow(this._locationRow.get(index), target);
+    this.unplace(entity);
+    this._locationArchetype.set(index, target.id);
+    this._locationRow.set(index, row);
+    return row;
+  }
+
+  /**
+   * Rows moving in or out of an archetype touch every one of its columns, e.g. a swap
+   * remove moves the last row, so other systems reading them must not run alongside.
+   */
+  private monitorRows(archetype: Archetype) {
+    if (!this._monitor) return;
+    for (const type of archetype.types) {
+      this._monitor(type, 'write');
+    }
+  }
+
+  private assertAlive(entity: Entity) {
+    if (!this.isAlive(entity)) {
+      throw new Error(`Entity ${entity} is not alive`);
+    }
+  }
+
+  /**
+   * Registered blocks already point at the rewound heap, this drops what was
+   * created after the checkpoint and reattaches resources removed since.
+   */
+  private rewound() {
+    // Archetypes are only ever appended, so the ones whose columns are gone are the last ones
+    let kept = this._archetypes.length;
+    while (kept > 0 && !this._allocator.hasStructure(this._archetypes[kept - 1].entities.__ID)) kept--;
+    const dropped = this._archetypes.splice(kept);
+    for (const archetype of dropped) {
+      this._archetypesByKey.delete(archetype.mask.key);
+      for (const query of this._queries.values()) {
+        query.untrack(archetype);
+      }
+    }
+    if (dropped.length > 0) {
+      // Cached edges may lead to dropped archetypes
+      this._archetypes.forEach((archetype) => archetype.edges.clear());
+    }
+    this._entities = new MemoryBlockRef(this._entities.offset, this.capacity * 8);
+
+    for (const [id, type] of this._resourceTypes) {
+      if (this._allocator.hasStructure(id)) continue;
+      this._resourceTypes.delete(id);
+      if (this._resources.get(type)?.__ID === id) this._resources.delete(type);
+    }
+    for (const [id, type] of this._resourceTypes) {
+      if (this._resources.get(type)?.__ID !== id) this._resources.set(type, new Resource(this._allocator, type, id));
+    }
+  }
+
+  private grow() {
+    const capacity = this.capacity;
+    const newCapacity = Math.max(capacity * 2, 1);
+    const newBlock = this._allocator.allocate(newCapacity * 8);
+
+    const buffer = this._allocator.buffer;
+    // Reused blocks hold stale bytes, new slots must start at generation 0
+    new Uint8Array(buffer, newBlock.offset, newCapacity * 8).fill(0);
+    const generations = new Uint8Array(buffer, this._entities.offset, capacity * 4);
+    const freeStack = new Uint8Array(buffer, this._entities.offset + capacity * 4, capacity * 4);
+    new Uint8Array(buffer, newBlock.offset, newCapacity * 4).set(generations);
+    new Uint8Array(buffer, newBlock.offset + newCapacity * 4, newCapacity * 4).set(freeStack);
+
+    this._allocator.free(this._entities);
+    this._entities = newBlock;
+    this._allocator.relocateStructure(this._entitiesId, newBlock.offset);
+    this._allocator.view.setUint32(this._header.offset, newCapacity);
+  }
+}